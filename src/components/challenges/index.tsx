@@ -1,22 +1,41 @@
-import { IconClock, IconHandStop, IconKeyboard } from "@tabler/icons-react";
+import {
+  IconClock,
+  IconHandStop,
+  IconKeyboard,
+  IconMath,
+  IconPencil,
+} from "@tabler/icons-react";
+import {
+  CHALLENGE_OPTIONS,
+  type ChallengeOptions,
+  type OptionDefinition,
+  type UnlockMethod,
+} from "@/lib/challenges";
 import { TimerChallenge } from "./timer";
 import { HoldChallenge } from "./hold";
 import { TypeChallenge } from "./type";
+import { MathChallenge } from "./math";
+import { ReflectChallenge } from "./reflect";
 
-type ChallengeOptionValue = number | string | boolean;
-type ChallengeOptions = Record<string, ChallengeOptionValue>;
+export {
+  getDefaultChallengeSettings,
+  resolveChallengeSettings,
+  scaleChallengeSettings,
+  summarizeChallengeSettings,
+  type ChallengeSettingsMap,
+  type UnlockMethod,
+} from "@/lib/challenges";
+
+// Anything a challenge collected from the user that should be kept
+export interface ChallengeResult {
+  reason?: string;
+}
 
 export interface ChallengeComponentProps<Options extends ChallengeOptions> {
   settings: Options;
-  onComplete: () => void;
+  onComplete: (result?: ChallengeResult) => void;
 }
 
-type OptionDefinition<T extends ChallengeOptionValue> = {
-  label: string;
-  default: T;
-  description: string;
-};
-
 type Challenge<Options extends ChallengeOptions = ChallengeOptions> = {
   label: string;
   icon: React.ReactNode;
@@ -38,13 +57,7 @@ export const CHALLENGES = {
     icon: <IconClock className="size-5" />,
     description: "Wait for a countdown to finish",
     title: "Wait to Access",
-    options: {
-      duration: {
-        label: "Duration (seconds)",
-        default: 10,
-        description: "The duration of the timer",
-      },
-    },
+    options: CHALLENGE_OPTIONS.timer,
     render: (props) => <TimerChallenge {...props} />,
   }),
   hold: define({
@@ -52,44 +65,31 @@ export const CHALLENGES = {
     icon: <IconHandStop className="size-5" />,
     description: "Hold a button continuously",
     title: "Hold to Access",
-    options: {
-      duration: {
-        label: "Duration (seconds)",
-        default: 10,
-        description: "How long to hold the button for",
-      },
-    },
+    options: CHALLENGE_OPTIONS.hold,
     render: (props) => <HoldChallenge {...props} />,
   }),
   type: define({
     label: "Type Text",
     icon: <IconKeyboard className="size-5" />,
-    description: "Type a random UUID (no copy/paste)",
+    description: "Type a random string (no copy/paste)",
     title: "Type to Access",
-    options: {},
+    options: CHALLENGE_OPTIONS.type,
     render: (props) => <TypeChallenge {...props} />,
   }),
+  math: define({
+    label: "Math Problems",
+    icon: <IconMath className="size-5" />,
+    description: "Solve arithmetic problems in your head",
+    title: "Solve to Access",
+    options: CHALLENGE_OPTIONS.math,
+    render: (props) => <MathChallenge {...props} />,
+  }),
+  reflect: define({
+    label: "Write a Reason",
+    icon: <IconPencil className="size-5" />,
+    description: "Explain why you need the site right now",
+    title: "Reflect to Access",
+    options: CHALLENGE_OPTIONS.reflect,
+    render: (props) => <ReflectChallenge {...props} />,
+  }),
 } as const;
-
-// Type exports for storage layer
-export type UnlockMethod = keyof typeof CHALLENGES;
-
-// Infer the settings type for each challenge from its options defaults
-type InferChallengeSettings<T> = T extends { options: infer O }
-  ? { [K in keyof O]: O[K] extends { default: infer D } ? D : never }
-  : never;
-
-export type ChallengeSettingsMap = {
-  [K in UnlockMethod]: InferChallengeSettings<(typeof CHALLENGES)[K]>;
-};
-
-export function getDefaultChallengeSettings<M extends UnlockMethod>(
-  method: M
-): ChallengeSettingsMap[M] {
-  const challenge = CHALLENGES[method];
-  const settings: Record<string, ChallengeOptionValue> = {};
-  for (const [key, opt] of Object.entries(challenge.options)) {
-    settings[key] = (opt as OptionDefinition<ChallengeOptionValue>).default;
-  }
-  return settings as ChallengeSettingsMap[M];
-}
@@ -0,0 +1,154 @@
+import { useState, useCallback, memo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { IconCheck } from "@tabler/icons-react";
+import type { ChallengeComponentProps } from "./index";
+
+type Operator = "+" | "-" | "*" | "/";
+
+interface Problem {
+  left: number;
+  right: number;
+  operator: Operator;
+  answer: number;
+}
+
+const OPERATOR_SYMBOLS: Record<Operator, string> = {
+  "+": "+",
+  "-": "−",
+  "*": "×",
+  "/": "÷",
+};
+
+function randomInt(min: number, max: number): number {
+  return min + Math.floor(Math.random() * (max - min + 1));
+}
+
+function randomOperand(digits: number): number {
+  const size = Math.max(1, Math.min(digits, 6));
+  return randomInt(size === 1 ? 1 : 10 ** (size - 1), 10 ** size - 1);
+}
+
+function parseOperators(operators: string): Operator[] {
+  const allowed = (["+", "-", "*", "/"] as const).filter((op) =>
+    operators.includes(op)
+  );
+  return allowed.length > 0 ? allowed : ["+"];
+}
+
+function generateProblem(digits: number, operators: string): Problem {
+  const allowed = parseOperators(operators);
+  const operator = allowed[randomInt(0, allowed.length - 1)];
+  let left = randomOperand(digits);
+  let right = randomOperand(digits);
+
+  switch (operator) {
+    case "+":
+      return { left, right, operator, answer: left + right };
+    case "-":
+      // Keep answers non-negative
+      if (right > left) [left, right] = [right, left];
+      return { left, right, operator, answer: left - right };
+    case "*":
+      return { left, right, operator, answer: left * right };
+    case "/":
+      // Build the dividend from the answer so division is always exact
+      return { left: left * right, right, operator, answer: left };
+  }
+}
+
+export const MathChallenge = memo(
+  ({
+    settings,
+    onComplete,
+  }: ChallengeComponentProps<{
+    problems: number;
+    digits: number;
+    operators: string;
+  }>) => {
+    const { problems, digits, operators } = settings;
+    const [problem, setProblem] = useState(() =>
+      generateProblem(digits, operators)
+    );
+    const [solved, setSolved] = useState(0);
+    const [answer, setAnswer] = useState("");
+    const [wrong, setWrong] = useState(false);
+    const [completed, setCompleted] = useState(false);
+
+    const handleSubmit = useCallback(
+      (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!answer.trim()) return;
+
+        setAnswer("");
+
+        // A wrong answer gets a fresh problem, so guessing doesn't converge
+        if (parseInt(answer, 10) !== problem.answer) {
+          setWrong(true);
+          setProblem(generateProblem(digits, operators));
+          return;
+        }
+
+        setWrong(false);
+        const newSolved = solved + 1;
+        setSolved(newSolved);
+
+        if (newSolved >= problems) {
+          setCompleted(true);
+          onComplete();
+        } else {
+          setProblem(generateProblem(digits, operators));
+        }
+      },
+      [answer, problem, solved, problems, digits, operators, onComplete]
+    );
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <div className="flex justify-between text-sm text-muted-foreground mb-2">
+            <p>Solve each problem:</p>
+            <p>
+              {solved}/{problems}
+            </p>
+          </div>
+          <div className="p-4 bg-muted/30 rounded-lg text-center">
+            <code className="text-2xl font-mono font-bold">
+              {problem.left} {OPERATOR_SYMBOLS[problem.operator]}{" "}
+              {problem.right} = ?
+            </code>
+          </div>
+        </div>
+
+        {!completed ? (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                inputMode="numeric"
+                placeholder="Answer"
+                className="font-mono text-center"
+                autoComplete="off"
+                autoFocus
+              />
+              <Button type="submit">Check</Button>
+            </div>
+            {wrong && (
+              <p className="text-center text-destructive text-sm">
+                Wrong answer! Here's a new problem.
+              </p>
+            )}
+          </form>
+        ) : (
+          <div className="flex items-center justify-center gap-2 text-green-500">
+            <IconCheck className="size-5" />
+            <span>Challenge complete!</span>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+MathChallenge.displayName = "MathChallenge";
@@ -0,0 +1,83 @@
+import { useState, useCallback, memo } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { IconCheck } from "@tabler/icons-react";
+import type { ChallengeComponentProps } from "./index";
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+export const ReflectChallenge = memo(
+  ({
+    settings,
+    onComplete,
+  }: ChallengeComponentProps<{ minWords: number; minChars: number }>) => {
+    const { minWords, minChars } = settings;
+    const [reason, setReason] = useState("");
+    const [completed, setCompleted] = useState(false);
+
+    const words = countWords(reason);
+    const chars = reason.trim().length;
+    const ready = words >= minWords && chars >= minChars;
+
+    const handleSubmit = useCallback(() => {
+      if (!ready) return;
+      setCompleted(true);
+      onComplete({ reason: reason.trim() });
+    }, [ready, reason, onComplete]);
+
+    const handlePaste = useCallback((e: React.ClipboardEvent) => {
+      e.preventDefault();
+    }, []);
+
+    const handleDrop = useCallback((e: React.DragEvent) => {
+      e.preventDefault();
+    }, []);
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <div className="flex justify-between text-sm text-muted-foreground mb-2">
+            <p>Why do you need this site right now?</p>
+            <p>
+              {Math.min(words, minWords)}/{minWords} words
+            </p>
+          </div>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            onPaste={handlePaste}
+            onDrop={handleDrop}
+            disabled={completed}
+            placeholder="Be honest with yourself..."
+            className="min-h-24"
+          />
+          {chars < minChars && (
+            <p className="text-xs text-muted-foreground mt-1">
+              At least {minChars} characters ({chars} so far)
+            </p>
+          )}
+        </div>
+
+        {!completed ? (
+          <Button
+            onClick={handleSubmit}
+            disabled={!ready}
+            className="w-full"
+            size="lg"
+          >
+            Submit Reason
+          </Button>
+        ) : (
+          <div className="flex items-center justify-center gap-2 text-green-500">
+            <IconCheck className="size-5" />
+            <span>Reason recorded!</span>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+ReflectChallenge.displayName = "ReflectChallenge";
@@ -3,9 +3,15 @@ import { Input } from "@/components/ui/input";
 import { IconCheck } from "@tabler/icons-react";
 import type { ChallengeComponentProps } from "./index";
 
+function randomText(length: number): string {
+  let text = crypto.randomUUID();
+  while (text.length < length) text += `-${crypto.randomUUID()}`;
+  return text.slice(0, Math.max(1, length));
+}
+
 export const TypeChallenge = memo(
-  ({ settings, onComplete }: ChallengeComponentProps<{}>) => {
-    const [targetText] = useState(() => crypto.randomUUID());
+  ({ settings, onComplete }: ChallengeComponentProps<{ length: number }>) => {
+    const [targetText] = useState(() => randomText(settings.length));
     const [inputText, setInputText] = useState("");
     const [completed, setCompleted] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
@@ -51,7 +57,7 @@ export const TypeChallenge = memo(
             </p>
           </div>
           <div className="p-3 bg-muted/30 rounded-lg overflow-hidden flex justify-center">
-            <code className="text-sm font-mono tracking-wider whitespace-nowrap">
+            <code className="text-sm font-mono tracking-wider break-all text-center">
               {targetText.split("").map((char, i) => (
                 <span
                   key={i}
@@ -0,0 +1,99 @@
+import { memo } from "react";
+import type { DailyStats } from "@/lib/storage";
+import { formatDuration } from "@/lib/stats";
+
+function formatDay(date: string): string {
+  const [year, month, day] = date.split("-").map((n) => parseInt(n, 10));
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function describeDay(day: DailyStats): string {
+  return `${formatDay(day.date)}: ${day.visits} blocked, ${day.passed} passed, ${formatDuration(day.timeSpentMs)} spent`;
+}
+
+/**
+ * Blocked visits per day, with the share that passed a challenge filled in
+ */
+export const DailyBarChart = memo(function DailyBarChart({
+  series,
+}: {
+  series: DailyStats[];
+}) {
+  const max = Math.max(1, ...series.map((d) => d.visits));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-end gap-px h-12">
+        {series.map((day) => (
+          <div
+            key={day.date}
+            title={describeDay(day)}
+            className="flex-1 h-full flex flex-col justify-end"
+          >
+            <div
+              className="bg-chart-1/40 rounded-t-sm flex flex-col justify-end overflow-hidden"
+              style={{ height: `${(day.visits / max) * 100}%` }}
+            >
+              <div
+                className="bg-chart-2"
+                style={{
+                  height: `${day.visits > 0 ? (day.passed / day.visits) * 100 : 0}%`,
+                }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{series.length > 0 && formatDay(series[0].date)}</span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+});
+
+/**
+ * Blocked visits per day as a line
+ */
+export const TrendLine = memo(function TrendLine({
+  series,
+}: {
+  series: DailyStats[];
+}) {
+  const width = 100;
+  const height = 32;
+  const max = Math.max(1, ...series.map((d) => d.visits));
+  const step = series.length > 1 ? width / (series.length - 1) : 0;
+
+  const points = series
+    .map((day, i) => {
+      const x = i * step;
+      const y = height - (day.visits / max) * (height - 2) - 1;
+      return `${x.toFixed(2)},${y.toFixed(2)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className="w-full h-12 text-chart-2"
+    >
+      <polygon
+        points={`0,${height} ${points} ${width},${height}`}
+        className="fill-current opacity-15"
+      />
+      <polyline
+        points={points}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+});
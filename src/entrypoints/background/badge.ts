@@ -0,0 +1,102 @@
+import { findMatchingBlockedSite, getPauses } from "@/lib/storage";
+import { getActivePause, getPauseEnd } from "@/lib/pause";
+import { BADGE_ALARM } from "@/lib/consts";
+import { getUnlockState } from "./blockers/unlocks";
+import { action, BLOCKED_PAGE_PATH } from "./utils";
+
+const LOCK_GLYPH = "🔒";
+
+const BADGE_COLORS = {
+  LOCKED: "#ef4444",
+  UNLOCKED: "#22c55e",
+  PAUSED: "#f59e0b",
+};
+
+interface Badge {
+  text: string;
+  color: string;
+}
+
+function formatRemaining(ms: number): string {
+  const minutes = Math.max(1, Math.ceil(ms / 60000));
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h`;
+}
+
+/**
+ * The site a tab is on, or is being kept from by the blocked page
+ */
+async function getTabSiteId(url: string): Promise<string | null> {
+  const blockedPageUrl = browser.runtime.getURL(BLOCKED_PAGE_PATH);
+  if (url.startsWith(blockedPageUrl)) {
+    return new URL(url).searchParams.get("siteId");
+  }
+  return (await findMatchingBlockedSite(url))?.id ?? null;
+}
+
+async function getBadge(url: string): Promise<Badge | null> {
+  const now = Date.now();
+
+  // A pause applies to every site, so it wins over the tab's own state
+  const pause = getActivePause(await getPauses(), now);
+  if (pause) {
+    return {
+      text: formatRemaining(getPauseEnd(pause) - now),
+      color: BADGE_COLORS.PAUSED,
+    };
+  }
+
+  const siteId = await getTabSiteId(url);
+  if (!siteId) return null;
+
+  const unlock = await getUnlockState(siteId);
+  if (unlock) {
+    return {
+      text: formatRemaining(unlock.expiresAt - now),
+      color: BADGE_COLORS.UNLOCKED,
+    };
+  }
+  return { text: LOCK_GLYPH, color: BADGE_COLORS.LOCKED };
+}
+
+export async function updateTabBadge(
+  tabId: number,
+  url: string | undefined
+): Promise<void> {
+  const badge = url ? await getBadge(url) : null;
+  if (badge) {
+    await action.setBadgeBackgroundColor({ tabId, color: badge.color });
+  }
+  await action.setBadgeText({ tabId, text: badge?.text ?? "" });
+}
+
+/**
+ * Refresh the badge of every window's active tab; other tabs are refreshed
+ * when they're switched to
+ */
+export async function updateBadges(): Promise<void> {
+  const tabs = await browser.tabs.query({ active: true });
+  for (const tab of tabs) {
+    if (tab.id === undefined) continue;
+    try {
+      await updateTabBadge(tab.id, tab.url);
+    } catch {
+      // The tab closed in the meantime
+    }
+  }
+}
+
+/**
+ * Remaining minutes count down once a minute
+ */
+export async function scheduleBadgeUpdates(): Promise<void> {
+  if (!(await browser.alarms.get(BADGE_ALARM))) {
+    await browser.alarms.create(BADGE_ALARM, { periodInMinutes: 1 });
+  }
+  await updateBadges();
+}
+
+export async function handleBadgeAlarm(alarmName: string): Promise<boolean> {
+  if (alarmName !== BADGE_ALARM) return false;
+  await updateBadges();
+  return true;
+}
@@ -0,0 +1,91 @@
+import { ALARM_PREFIX } from "@/lib/consts";
+import {
+  getUnlockState,
+  loadUnlocks,
+  removeUnlock,
+  saveUnlock,
+  type UnlockState,
+} from "./unlocks";
+import { findTabsOnBlockedSite } from "./tabs";
+
+export type { UnlockState };
+
+export interface Blocker {
+  initialize(): Promise<void>;
+  /** Apply the current blocked sites, unlocks, schedules and budgets */
+  sync(): Promise<void>;
+  grantAccess(
+    siteId: string,
+    durationMinutes: number | null
+  ): Promise<{ expiresAt: number }>;
+  /** Returns ids of tabs still on the site, to send to the blocked page */
+  revokeAccess(siteId: string): Promise<number[]>;
+  getUnlockState(siteId: string): Promise<UnlockState | null>;
+  isSiteUnlocked(siteId: string): Promise<boolean>;
+  handleRelockAlarm(alarmName: string): Promise<{
+    siteId: string;
+    tabsToRedirect: number[];
+  } | null>;
+}
+
+/**
+ * The part that differs between browsers: how blocking is enforced
+ */
+export interface BlockerEngine {
+  initialize(): Promise<void>;
+  sync(): Promise<void>;
+}
+
+export function createBlocker(engine: BlockerEngine): Blocker {
+  const grantAccess = async (
+    siteId: string,
+    durationMinutes: number | null
+  ) => {
+    const minutes = durationMinutes ?? 60;
+    const expiresAt = Date.now() + minutes * 60 * 1000;
+
+    await saveUnlock({ siteId, expiresAt });
+    await engine.sync();
+    await browser.alarms.create(`${ALARM_PREFIX}${siteId}`, {
+      when: expiresAt,
+    });
+
+    console.log(
+      `[distracted] Granted access to site ${siteId} for ${minutes} minutes`
+    );
+    return { expiresAt };
+  };
+
+  const revokeAccess = async (siteId: string) => {
+    await removeUnlock(siteId);
+    await browser.alarms.clear(`${ALARM_PREFIX}${siteId}`);
+    await engine.sync();
+    const tabsToRedirect = await findTabsOnBlockedSite(siteId);
+
+    console.log(
+      `[distracted] Revoked access to site ${siteId}, ${tabsToRedirect.length} tabs to redirect`
+    );
+    return tabsToRedirect;
+  };
+
+  return {
+    initialize: async () => {
+      await loadUnlocks();
+      await engine.initialize();
+    },
+    sync: () => engine.sync(),
+    grantAccess,
+    revokeAccess,
+    getUnlockState,
+    isSiteUnlocked: async (siteId) => (await getUnlockState(siteId)) !== null,
+    handleRelockAlarm: async (alarmName) => {
+      if (!alarmName.startsWith(ALARM_PREFIX)) return null;
+
+      const siteId = alarmName.slice(ALARM_PREFIX.length);
+      console.log(`[distracted] Relock alarm fired for site ${siteId}`);
+
+      const tabsToRedirect = await revokeAccess(siteId);
+      return { siteId, tabsToRedirect };
+    },
+  };
+}
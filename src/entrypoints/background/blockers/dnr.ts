@@ -1,251 +1,240 @@
-import { getBlockedSites, urlMatchesSiteRules } from "@/lib/storage";
-import { RULE_ID_BASE, UNLOCK_PREFIX, ALARM_PREFIX } from "@/lib/consts";
-import { isInternalUrl } from "../utils";
+import {
+  getBlockedSites,
+  getBudgetUsage,
+  getRejectedPatterns,
+  isSiteActive,
+  type RejectedPattern,
+} from "@/lib/storage";
+import { getBudgetExemptSiteIds } from "@/lib/budget";
+import { RULE_ID_BASE, RULE_ID_SPACE, STORAGE_KEYS } from "@/lib/consts";
+import { patternToDnrConditions } from "@/lib/patterns";
+import { getBlockedPageRedirect } from "../utils";
+import { isPaused } from "../pause";
+import { createBlocker } from "./blocker";
+import { getUnlockedSiteIds } from "./unlocks";
+
+const DEFAULT_MAX_REGEX_RULES = 1000;
+
+// Allow rules win over everything. A block pattern with exceptions sits
+// below other blocks, so its exceptions (which win ties) only carve holes
+// in that pattern and not in the rest of the block list.
+const PRIORITY = {
+  EXCEPTION: 1,
+  BLOCK: 2,
+  ALLOW: 3,
+};
+
+const REGEX_REJECTIONS: Record<string, string> = {
+  syntaxError: "Pattern can't be turned into a valid rule",
+  memoryLimitExceeded: "Pattern is too complex for the browser",
+};
+
+// isRegexSupported is async and patterns rarely change between syncs
+const regexRejections = new Map<string, string | null>();
+
+async function getRegexRejection(regex: string): Promise<string | null> {
+  if (!regexRejections.has(regex)) {
+    const result = await browser.declarativeNetRequest.isRegexSupported({
+      regex,
+      isCaseSensitive: false,
+    });
+    regexRejections.set(
+      regex,
+      result.isSupported
+        ? null
+        : (REGEX_REJECTIONS[result.reason ?? ""] ?? "Pattern isn't supported")
+    );
+  }
+  return regexRejections.get(regex) ?? null;
+}
+
+async function saveRejectedPatterns(
+  rejected: Record<string, RejectedPattern[]>
+): Promise<void> {
+  // Skip the write when nothing changed, the popup listens for it
+  const current = await getRejectedPatterns();
+  if (JSON.stringify(current) === JSON.stringify(rejected)) return;
+  await browser.storage.local.set({
+    [STORAGE_KEYS.REJECTED_PATTERNS]: rejected,
+  });
+}
 
-interface UnlockState {
-  siteId: string;
-  expiresAt: number;
+/**
+ * FNV-1a, so a rule keeps its id across syncs no matter what else changed
+ */
+function hashRuleKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
 }
 
-export async function syncDnrRules(): Promise<void> {
+function getRuleId(key: string, usedIds: Set<number>): number {
+  let id = RULE_ID_BASE + (hashRuleKey(key) % RULE_ID_SPACE);
+  // Probe past the rare collision; keys are visited in a stable order
+  while (usedIds.has(id)) {
+    id = RULE_ID_BASE + ((id - RULE_ID_BASE + 1) % RULE_ID_SPACE);
+  }
+  usedIds.add(id);
+  return id;
+}
+
+const ruleFingerprint = (rule: Browser.declarativeNetRequest.Rule) =>
+  JSON.stringify([rule.priority, rule.action, rule.condition]);
+
+async function applyDnrRules(): Promise<void> {
   const sites = await getBlockedSites();
   const existingRules = await browser.declarativeNetRequest.getDynamicRules();
-  const existingRuleIds = existingRules.map((r) => r.id);
 
-  const session = await browser.storage.session.get();
-  const unlockedIds = new Set<string>();
-  const now = Date.now();
+  const unlockedIds = await getUnlockedSiteIds();
 
-  for (const [key, value] of Object.entries(session)) {
-    if (key.startsWith(UNLOCK_PREFIX)) {
-      const state = value as any;
-      if (state.expiresAt > now) {
-        unlockedIds.add(state.siteId);
-      }
-    }
-  }
+  // Sites with daily budget left are reachable without a challenge
+  const budgetExemptIds = getBudgetExemptSiteIds(sites, await getBudgetUsage());
+  const paused = await isPaused();
 
   const newRules: Browser.declarativeNetRequest.Rule[] = [];
-  let ruleIndex = 0;
-
-  const patternToRegex = (pattern: string): string => {
-    const normalized = pattern
-      .toLowerCase()
-      .trim()
-      .replace(/^https?:\/\//, "")
-      .replace(/^www\./, "");
-
-    const hasPath = normalized.includes("/");
-    let hostPattern: string;
-    let pathPattern: string = "";
-
-    if (hasPath) {
-      const slashIndex = normalized.indexOf("/");
-      hostPattern = normalized.slice(0, slashIndex);
-      pathPattern = normalized.slice(slashIndex);
-    } else {
-      hostPattern = normalized;
-    }
-
-    let hostRegex: string;
-    if (hostPattern.startsWith("*.")) {
-      const domain = hostPattern.slice(2);
-      const escapedDomain = domain
-        .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
-        .replace(/\*/g, ".*");
-      hostRegex = `([a-z0-9-]+\\.)*${escapedDomain}`;
-    } else if (hostPattern.includes("*")) {
-      const escapedHost = hostPattern
-        .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
-        .replace(/\*/g, ".*");
-      hostRegex = `(www\\.)?${escapedHost}`;
-    } else {
-      const escapedHost = hostPattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
-      hostRegex = `(www\\.)?${escapedHost}`;
-    }
+  const rejected: Record<string, RejectedPattern[]> = {};
+  const usedIds = new Set<number>();
+  const seenKeys = new Set<string>();
+  let regexCount = 0;
+  // Read here, this module is loaded on Firefox too where DNR isn't there
+  const maxRegexRules =
+    browser.declarativeNetRequest.MAX_NUMBER_OF_REGEX_RULES ??
+    DEFAULT_MAX_REGEX_RULES;
+
+  const activeSites = sites.filter((site) => isSiteActive(site));
+
+  // Every site is validated so rejections stay visible while it's unlocked
+  for (const site of sites) {
+    const enforced =
+      !paused &&
+      activeSites.includes(site) &&
+      !unlockedIds.has(site.id) &&
+      !budgetExemptIds.has(site.id);
+
+    for (const rule of site.rules) {
+      const { match, except } = patternToDnrConditions(rule.pattern, rule.kind);
+      const conditions = [
+        ...match.map((condition) => ({ condition, exception: false })),
+        ...except.map((condition) => ({ condition, exception: true })),
+      ];
+
+      // A rule is enforced whole or not at all, a missing exception would
+      // block more than the pattern says
+      let reason: string | null = null;
+      if (rule.allow && except.length > 0) {
+        reason = "Absent parameters only work on block patterns";
+      }
+      const regexes = conditions.filter(
+        ({ condition }) => "regexFilter" in condition
+      ).length;
+      for (const { condition } of conditions) {
+        if (reason) break;
+        if ("regexFilter" in condition) {
+          reason = await getRegexRejection(condition.regexFilter);
+        }
+      }
+      if (!reason && enforced && regexCount + regexes > maxRegexRules) {
+        reason = "Too many complex patterns, simplify some";
+      }
+      if (reason) {
+        (rejected[site.id] ??= []).push({ pattern: rule.pattern, reason });
+        continue;
+      }
 
-    let pathRegex: string;
-    if (pathPattern) {
-      const escapedPath = pathPattern
-        .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
-        .replace(/\*/g, ".*");
-      if (pathPattern.endsWith("*")) {
-        pathRegex = escapedPath;
-      } else {
-        pathRegex = `${escapedPath}(/.*|\\?.*)?`;
+      if (!enforced) continue;
+      regexCount += regexes;
+
+      for (const [index, { condition, exception }] of conditions.entries()) {
+        const key = `${site.id}|${rule.allow}|${rule.kind}|${rule.pattern}|${index}`;
+        // The same pattern listed twice needs only one rule
+        if (seenKeys.has(key)) continue;
+        seenKeys.add(key);
+
+        let priority: number;
+        let action: Browser.declarativeNetRequest.RuleAction;
+        if (rule.allow) {
+          priority = PRIORITY.ALLOW;
+          action = { type: "allow" };
+        } else if (exception) {
+          priority = PRIORITY.EXCEPTION;
+          action = { type: "allow" };
+        } else {
+          priority = except.length > 0 ? PRIORITY.EXCEPTION : PRIORITY.BLOCK;
+          action = {
+            type: "redirect",
+            // User regexes aren't anchored, so their match isn't the whole URL
+            redirect: getBlockedPageRedirect(
+              site.id,
+              rule.kind !== "regex" && "regexFilter" in condition
+            ),
+          };
+        }
+
+        newRules.push({
+          id: getRuleId(key, usedIds),
+          priority,
+          action,
+          condition: {
+            ...condition,
+            isUrlFilterCaseSensitive: false,
+            resourceTypes: ["main_frame"],
+          },
+        });
       }
-    } else {
-      pathRegex = "(/.*)?";
     }
+  }
 
-    return `^https?://${hostRegex}${pathRegex}$`;
-  };
-
-  sites.forEach((site) => {
-    if (!site.enabled) return;
-    if (unlockedIds.has(site.id)) return;
-
-    const blockRules = site.rules.filter((r) => !r.allow);
-    blockRules.forEach((rule) => {
-      newRules.push({
-        id: RULE_ID_BASE + ruleIndex++,
-        priority: 1,
-        action: {
-          type: "block",
-        },
-        condition: {
-          regexFilter: patternToRegex(rule.pattern),
-          resourceTypes: ["main_frame"],
-        },
-      });
-    });
-
-    const allowRules = site.rules.filter((r) => r.allow);
-    allowRules.forEach((rule) => {
-      newRules.push({
-        id: RULE_ID_BASE + ruleIndex++,
-        priority: 2,
-        action: {
-          type: "allow",
-        },
-        condition: {
-          regexFilter: patternToRegex(rule.pattern),
-          resourceTypes: ["main_frame"],
-        },
-      });
-    });
-  });
-
-  await browser.declarativeNetRequest.updateDynamicRules({
-    removeRuleIds: existingRuleIds,
-    addRules: newRules,
-  });
-
-  console.log(
-    `[distracted] DNR rules synced: ${newRules.length} rules for ${sites.filter((s) => s.enabled).length} sites`
-  );
-}
-
-export async function grantAccess(
-  siteId: string,
-  durationMinutes: number | null
-): Promise<{ expiresAt: number }> {
-  const durationMs = (durationMinutes ?? 60) * 60 * 1000;
-  const expiresAt = Date.now() + durationMs;
-
-  const state: UnlockState = { siteId, expiresAt };
-  await browser.storage.session.set({
-    [`${UNLOCK_PREFIX}${siteId}`]: state,
-  });
-
-  await syncDnrRules();
-
-  const alarmName = `${ALARM_PREFIX}${siteId}`;
-  await browser.alarms.create(alarmName, {
-    when: expiresAt,
+  // Only touch rules that appeared, disappeared or changed
+  const existingById = new Map(existingRules.map((r) => [r.id, r]));
+  const newById = new Map(newRules.map((r) => [r.id, r]));
+  const removeRuleIds = existingRules
+    .filter((r) => {
+      const next = newById.get(r.id);
+      return !next || ruleFingerprint(next) !== ruleFingerprint(r);
+    })
+    .map((r) => r.id);
+  const addRules = newRules.filter((r) => {
+    const current = existingById.get(r.id);
+    return !current || ruleFingerprint(current) !== ruleFingerprint(r);
   });
 
-  console.log(
-    `[distracted] Granted access to site ${siteId} for ${durationMinutes ?? 60} minutes`
-  );
-
-  return { expiresAt };
-}
-
-export async function revokeAccess(siteId: string): Promise<number[]> {
-  await browser.storage.session.remove(`${UNLOCK_PREFIX}${siteId}`);
-  await browser.alarms.clear(`${ALARM_PREFIX}${siteId}`);
-  await syncDnrRules();
-  const tabsToRedirect = await findTabsOnBlockedSite(siteId);
+  if (removeRuleIds.length > 0 || addRules.length > 0) {
+    await browser.declarativeNetRequest.updateDynamicRules({
+      removeRuleIds,
+      addRules,
+    });
+  }
+  await saveRejectedPatterns(rejected);
 
   console.log(
-    `[distracted] Revoked access to site ${siteId}, ${tabsToRedirect.length} tabs to redirect`
+    `[distracted] DNR rules synced: ${newRules.length} rules (${regexCount} regex) for ${activeSites.length} sites, ${addRules.length} added, ${removeRuleIds.length} removed`
   );
-
-  return tabsToRedirect;
 }
 
-/**
- * Find all tabs that are currently on a blocked site
- */
-export async function findTabsOnBlockedSite(siteId: string): Promise<number[]> {
-  const sites = await getBlockedSites();
-  const site = sites.find((s) => s.id === siteId);
-  if (!site) return [];
-
-  const tabs = await browser.tabs.query({});
-  const matchingTabIds: number[] = [];
-
-  for (const tab of tabs) {
-    if (!tab.id || !tab.url) continue;
-    // Skip extension pages and internal URLs
-    if (isInternalUrl(tab.url)) continue;
-
-    if (urlMatchesSiteRules(tab.url, site)) {
-      matchingTabIds.push(tab.id);
-    }
-  }
-
-  return matchingTabIds;
-}
+let syncQueue: Promise<unknown> = Promise.resolve();
+let pendingSync: Promise<void> | null = null;
 
 /**
- * Check if a site is currently unlocked
+ * Syncs run one at a time so two diffs never work from the same stale rule
+ * list. A sync that hasn't started yet reads the latest state anyway, so
+ * calls made while one is waiting share it.
  */
-export async function isSiteUnlocked(siteId: string): Promise<boolean> {
-  const result = await browser.storage.session.get(`${UNLOCK_PREFIX}${siteId}`);
-  const state = result[`${UNLOCK_PREFIX}${siteId}`] as UnlockState | undefined;
-
-  if (!state) return false;
-  if (state.expiresAt <= Date.now()) {
-    await browser.storage.session.remove(`${UNLOCK_PREFIX}${siteId}`);
-    return false;
-  }
-
-  return true;
-}
-
-export async function getUnlockState(
-  siteId: string
-): Promise<UnlockState | null> {
-  const result = await browser.storage.session.get(`${UNLOCK_PREFIX}${siteId}`);
-  const state = result[`${UNLOCK_PREFIX}${siteId}`] as UnlockState | undefined;
-
-  if (!state) return null;
-  if (state.expiresAt <= Date.now()) {
-    await browser.storage.session.remove(`${UNLOCK_PREFIX}${siteId}`);
-    return null;
-  }
-
-  return state;
-}
+function syncDnrRules(): Promise<void> {
+  if (pendingSync) return pendingSync;
 
-export async function handleRelockAlarm(alarmName: string): Promise<{
-  siteId: string;
-  tabsToRedirect: number[];
-} | null> {
-  if (!alarmName.startsWith(ALARM_PREFIX)) return null;
-
-  const siteId = alarmName.slice(ALARM_PREFIX.length);
-  console.log(`[distracted] Relock alarm fired for site ${siteId}`);
-
-  const tabsToRedirect = await revokeAccess(siteId);
-  return { siteId, tabsToRedirect };
+  const run = syncQueue.then(() => {
+    pendingSync = null;
+    return applyDnrRules();
+  });
+  pendingSync = run;
+  syncQueue = run.catch(() => {});
+  return run;
 }
 
-export async function initializeDnr(): Promise<void> {
-  const session = await browser.storage.session.get();
-  const now = Date.now();
-
-  for (const [key, value] of Object.entries(session)) {
-    if (key.startsWith(UNLOCK_PREFIX)) {
-      const state = value as UnlockState;
-      if (state.expiresAt <= now) {
-        await browser.storage.session.remove(key);
-        await browser.alarms.clear(`${ALARM_PREFIX}${state.siteId}`);
-      }
-    }
-  }
-
-  await syncDnrRules();
-}
+export const dnrBlocker = createBlocker({
+  initialize: syncDnrRules,
+  sync: syncDnrRules,
+});
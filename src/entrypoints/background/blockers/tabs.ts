@@ -0,0 +1,58 @@
+import { getBlockedSites, urlMatchesSiteRules } from "@/lib/storage";
+import { getBlockedPageUrl, isInternalUrl } from "../utils";
+import { isPaused } from "../pause";
+
+/**
+ * Find all tabs that are currently on a blocked site
+ */
+export async function findTabsOnBlockedSite(siteId: string): Promise<number[]> {
+  const sites = await getBlockedSites();
+  const site = sites.find((s) => s.id === siteId);
+  if (!site) return [];
+
+  const tabs = await browser.tabs.query({});
+  const matchingTabIds: number[] = [];
+
+  for (const tab of tabs) {
+    if (!tab.id || !tab.url) continue;
+    // Skip extension pages and internal URLs
+    if (isInternalUrl(tab.url)) continue;
+
+    if (urlMatchesSiteRules(tab.url, site)) {
+      matchingTabIds.push(tab.id);
+    }
+  }
+
+  return matchingTabIds;
+}
+
+/**
+ * Send a tab to the blocked page, which returns to `url` once unlocked
+ */
+export async function redirectTabToBlockedPage(
+  tabId: number,
+  url: string,
+  siteId: string
+): Promise<void> {
+  await browser.tabs.update(tabId, { url: getBlockedPageUrl(url, siteId) });
+}
+
+export async function redirectTabsToBlockedPage(
+  siteId: string,
+  tabIds: number[]
+): Promise<void> {
+  // Relocks and schedule starts during a pause wait for it to end
+  if (tabIds.length === 0 || (await isPaused())) return;
+
+  for (const tabId of tabIds) {
+    try {
+      const tab = await browser.tabs.get(tabId);
+      if (!tab.url) continue;
+
+      await redirectTabToBlockedPage(tabId, tab.url, siteId);
+      console.log(`[distracted] Redirected tab ${tabId} to blocked page`);
+    } catch (err) {
+      console.log(`[distracted] Could not redirect tab ${tabId}:`, err);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { ALARM_PREFIX, UNLOCK_PREFIX } from "@/lib/consts";
+
+export interface UnlockState {
+  siteId: string;
+  expiresAt: number;
+}
+
+// Mirrors storage so the webRequest listener can check grants synchronously
+const unlocks = new Map<string, UnlockState>();
+let loading: Promise<void> | null = null;
+
+const unlockKey = (siteId: string) => `${UNLOCK_PREFIX}${siteId}`;
+
+/**
+ * Read grants saved before the background restarted. Grants live in
+ * storage.local rather than storage.session so they also survive a browser
+ * restart; each one carries its expiry, so a stale one is just dropped.
+ */
+async function restoreUnlocks(): Promise<void> {
+  const stored = await browser.storage.local.get();
+  const now = Date.now();
+
+  for (const [key, value] of Object.entries(stored)) {
+    if (!key.startsWith(UNLOCK_PREFIX)) continue;
+
+    const state = value as UnlockState;
+    const alarmName = `${ALARM_PREFIX}${state.siteId}`;
+    if (state.expiresAt <= now) {
+      await browser.storage.local.remove(key);
+      await browser.alarms.clear(alarmName);
+      continue;
+    }
+
+    unlocks.set(state.siteId, state);
+    // Alarms don't always survive a browser restart
+    if (!(await browser.alarms.get(alarmName))) {
+      await browser.alarms.create(alarmName, { when: state.expiresAt });
+    }
+  }
+
+  // Relock alarms left behind by grants that are gone
+  for (const alarm of await browser.alarms.getAll()) {
+    if (!alarm.name.startsWith(ALARM_PREFIX)) continue;
+    if (!unlocks.has(alarm.name.slice(ALARM_PREFIX.length))) {
+      await browser.alarms.clear(alarm.name);
+    }
+  }
+}
+
+/**
+ * Load and reconcile stored grants once per background lifetime
+ */
+export function loadUnlocks(): Promise<void> {
+  loading ??= restoreUnlocks();
+  return loading;
+}
+
+export async function saveUnlock(state: UnlockState): Promise<void> {
+  await loadUnlocks();
+  unlocks.set(state.siteId, state);
+  await browser.storage.local.set({ [unlockKey(state.siteId)]: state });
+}
+
+export async function removeUnlock(siteId: string): Promise<void> {
+  await loadUnlocks();
+  unlocks.delete(siteId);
+  await browser.storage.local.remove(unlockKey(siteId));
+}
+
+export async function getUnlockState(
+  siteId: string
+): Promise<UnlockState | null> {
+  await loadUnlocks();
+  const state = unlocks.get(siteId);
+  if (!state) return null;
+
+  if (state.expiresAt <= Date.now()) {
+    await removeUnlock(siteId);
+    return null;
+  }
+
+  return state;
+}
+
+export async function getUnlockedSiteIds(): Promise<Set<string>> {
+  await loadUnlocks();
+  const now = Date.now();
+  return new Set(
+    [...unlocks.values()]
+      .filter((state) => state.expiresAt > now)
+      .map((state) => state.siteId)
+  );
+}
+
+/**
+ * Synchronous check for blocking listeners, only valid after loadUnlocks
+ */
+export function hasActiveUnlock(siteId: string): boolean {
+  const state = unlocks.get(siteId);
+  return !!state && state.expiresAt > Date.now();
+}
@@ -0,0 +1,76 @@
+import {
+  getBlockedSites,
+  saveBlockedSites,
+  urlMatchesSiteRules,
+  type BlockedSite,
+} from "@/lib/storage";
+import { DEFAULT_AUTO_RELOCK, QUICK_BLOCK_SITE_ID } from "@/lib/consts";
+import type { Blocker } from "./blockers/blocker";
+import { getUnlockedSiteIds } from "./blockers/unlocks";
+import { redirectTabsToBlockedPage } from "./blockers/tabs";
+import { getCurrentTab, isInternalUrl } from "./utils";
+
+export const COMMANDS = {
+  BLOCK_CURRENT_SITE: "block-current-site",
+  RELOCK_ALL: "relock-all",
+  TOGGLE_PAUSE: "toggle-pause",
+} as const;
+
+/**
+ * Add the domain to the quick block rule set, creating it on first use
+ */
+async function addQuickBlock(domain: string): Promise<BlockedSite> {
+  const sites = await getBlockedSites();
+  let site = sites.find((s) => s.id === QUICK_BLOCK_SITE_ID);
+
+  if (!site) {
+    site = {
+      id: QUICK_BLOCK_SITE_ID,
+      name: "Quick Blocks",
+      rules: [],
+      challenges: [
+        { unlockMethod: "timer", challengeSettings: { duration: 10 } },
+      ],
+      autoRelockAfter: DEFAULT_AUTO_RELOCK,
+      enabled: true,
+      createdAt: Date.now(),
+    };
+    sites.push(site);
+  }
+
+  if (!site.rules.some((r) => !r.allow && r.pattern === domain)) {
+    site.rules.push({ pattern: domain, kind: "domain", allow: false });
+  }
+  site.enabled = true;
+
+  await saveBlockedSites(sites);
+  return site;
+}
+
+/**
+ * Block the active tab's site right away: relock the rule set covering it,
+ * or add its domain to the quick block rule set
+ */
+export async function blockCurrentSite(blocker: Blocker): Promise<void> {
+  const { url, domain } = await getCurrentTab();
+  if (!url || !domain || isInternalUrl(url)) return;
+
+  const sites = await getBlockedSites();
+  const site =
+    sites.find((s) => urlMatchesSiteRules(url, s)) ??
+    (await addQuickBlock(domain));
+
+  console.log(`[distracted] Blocking ${domain} now with "${site.name}"`);
+  const tabIds = await blocker.revokeAccess(site.id);
+  await redirectTabsToBlockedPage(site.id, tabIds);
+}
+
+export async function relockAllSites(blocker: Blocker): Promise<void> {
+  const unlockedIds = await getUnlockedSiteIds();
+  console.log(`[distracted] Relocking ${unlockedIds.size} unlocked sites`);
+
+  for (const siteId of unlockedIds) {
+    const tabIds = await blocker.revokeAccess(siteId);
+    await redirectTabsToBlockedPage(siteId, tabIds);
+  }
+}
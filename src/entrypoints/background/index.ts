@@ -1,103 +1,311 @@
 import {
+  addUnlockReason,
   findMatchingBlockedSite,
   getBlockedSites,
+  getBudgetUsage,
   getSettings,
+  getUnlockHistory,
+  isSiteActive,
+  recordUnlock,
+  updateSiteStats,
+  type BlockedSite,
 } from "@/lib/storage";
-import * as dnr from "./blockers/dnr";
-import * as webRequest from "./blockers/webRequest";
-import { isInternalUrl } from "./utils";
+import { runMigrations } from "@/lib/migrations";
+import { STORAGE_KEYS, UNLOCK_PREFIX } from "@/lib/consts";
+import { getEscalationState, type EscalationState } from "@/lib/escalation";
+import { getBudgetStatus, type BudgetStatus } from "@/lib/budget";
+import type { Blocker } from "./blockers/blocker";
+import { dnrBlocker } from "./blockers/dnr";
+import { webRequestBlocker } from "./blockers/webRequest";
+import {
+  findTabsOnBlockedSite,
+  redirectTabToBlockedPage,
+  redirectTabsToBlockedPage,
+} from "./blockers/tabs";
+import { scheduleNextBoundary, handleScheduleAlarm } from "./schedule";
+import {
+  initializeTracker,
+  updateActiveSession,
+  scheduleBudgetReset,
+  handleTrackerAlarm,
+  handleBudgetResetAlarm,
+} from "./tracker";
+import {
+  endPause,
+  getPauseState,
+  handlePauseAlarm,
+  isPaused,
+  openPausePrompt,
+  restorePause,
+  startPause,
+} from "./pause";
+import { blockCurrentSite, COMMANDS, relockAllSites } from "./commands";
+import { handleContextMenuClick, updateContextMenus } from "./menus";
+import {
+  handleBadgeAlarm,
+  scheduleBadgeUpdates,
+  updateBadges,
+  updateTabBadge,
+} from "./badge";
+import {
+  deleteSite,
+  endLockdown,
+  getLockdownState,
+  importBackup,
+  requestLockdownEnd,
+  revertWeakeningChanges,
+  startLockdown,
+  updateSettings,
+  updateSite,
+} from "./lockdown";
+import {
+  extendUnlock,
+  handleWarningAlarm,
+  scheduleRelockWarning,
+} from "./warnings";
+import { getCurrentTab, isInternalUrl } from "./utils";
 
 const isMV3 = import.meta.env.MANIFEST_VERSION === 3;
 console.log(`[distracted] background entry`, {
   isMV3,
 });
 
-async function syncRules(): Promise<void> {
-  if (isMV3) await dnr.syncDnrRules();
-  else await webRequest.syncRules();
+const blocker: Blocker = isMV3 ? dnrBlocker : webRequestBlocker;
+
+async function getSiteBudgetStatus(
+  site: BlockedSite
+): Promise<BudgetStatus | null> {
+  if (!site.budget) return null;
+  const usage = await getBudgetUsage();
+  return getBudgetStatus(site.budget, usage[site.id]);
+}
+
+async function hasBudgetRemaining(site: BlockedSite): Promise<boolean> {
+  const budget = await getSiteBudgetStatus(site);
+  return !!budget && budget.remainingMs > 0;
+}
+
+async function getSiteEscalationState(
+  site: BlockedSite
+): Promise<EscalationState | null> {
+  if (!site.escalation) return null;
+  const history = await getUnlockHistory();
+  return getEscalationState(site.escalation, history[site.id] ?? []);
+}
+
+async function handleBudgetExhausted(siteIds: string[]): Promise<void> {
+  if (siteIds.length === 0) return;
+
+  await blocker.sync();
+  for (const siteId of siteIds) {
+    console.log(`[distracted] Daily budget used up for site ${siteId}`);
+    const tabIds = await findTabsOnBlockedSite(siteId);
+    await redirectTabsToBlockedPage(siteId, tabIds);
+  }
 }
 
-async function isSiteUnlocked(siteId: string): Promise<boolean> {
-  if (isMV3) return dnr.isSiteUnlocked(siteId);
-  else return webRequest.isSiteUnlocked(siteId);
+/**
+ * Send open tabs on locked sites (all of them, or just `siteIds`) to the
+ * blocked page, after a pause or when a site starts blocking more
+ */
+async function redirectLockedTabs(siteIds?: string[]): Promise<void> {
+  const sites = await getBlockedSites();
+  for (const site of sites) {
+    if (siteIds && !siteIds.includes(site.id)) continue;
+    if (!isSiteActive(site)) continue;
+    if (await blocker.isSiteUnlocked(site.id)) continue;
+    if (await hasBudgetRemaining(site)) continue;
+
+    const tabIds = await findTabsOnBlockedSite(site.id);
+    await redirectTabsToBlockedPage(site.id, tabIds);
+  }
 }
 
-async function getUnlockState(
-  siteId: string
-): Promise<{ siteId: string; expiresAt: number } | null> {
-  if (isMV3) return dnr.getUnlockState(siteId);
-  else return webRequest.getUnlockState(siteId);
+async function resumeBlocking(): Promise<void> {
+  await blocker.sync();
+  await redirectLockedTabs();
 }
 
 export default defineBackground(() => {
   console.log("[distracted] Background script initialized");
 
+  initializeTracker(async () => {
+    await handleBudgetExhausted(await updateActiveSession());
+  }).catch((err) => {
+    console.error("[distracted] Failed to initialize tracker:", err);
+  });
+
+  // Runs on every start, which covers install, update and browser startup
+  const migrated = runMigrations().catch((err) => {
+    console.error("[distracted] Failed to migrate storage:", err);
+  });
+
   (async () => {
-    if (isMV3) await dnr.initializeDnr();
-    else await webRequest.initializeWebRequest();
+    await migrated;
+    await blocker.initialize();
+    await scheduleNextBoundary();
+    await restorePause();
+    await updateContextMenus();
+    await scheduleBadgeUpdates();
   })().catch((err) => {
     console.error("[distracted] Failed to initialize blocker:", err);
   });
 
   browser.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === "local") {
+      revertWeakeningChanges(changes).catch((err) => {
+        console.error("[distracted] Failed to enforce lockdown:", err);
+      });
+    }
+
     if (areaName === "local" && changes.blockedSites) {
       console.log("[distracted] Blocked sites changed, syncing rules");
-      syncRules().catch((err) => {
+      blocker.sync().catch((err) => {
         console.error("[distracted] Failed to sync rules:", err);
       });
+      scheduleNextBoundary().catch((err) => {
+        console.error("[distracted] Failed to schedule next boundary:", err);
+      });
+      scheduleBudgetReset().catch((err) => {
+        console.error("[distracted] Failed to schedule budget reset:", err);
+      });
+      updateContextMenus().catch((err) => {
+        console.error("[distracted] Failed to update context menus:", err);
+      });
+      updateActiveSession()
+        .then(handleBudgetExhausted)
+        .catch((err) => {
+          console.error("[distracted] Failed to update active session:", err);
+        });
+    }
+
+    // Anything that changes whether the active tab is locked, unlocked or paused
+    if (
+      areaName === "local" &&
+      Object.keys(changes).some(
+        (key) =>
+          key === STORAGE_KEYS.BLOCKED_SITES ||
+          key === STORAGE_KEYS.PAUSES ||
+          key.startsWith(UNLOCK_PREFIX)
+      )
+    ) {
+      updateBadges().catch((err) => {
+        console.error("[distracted] Failed to update badges:", err);
+      });
     }
   });
 
   browser.alarms.onAlarm.addListener(async (alarm) => {
-    const result = isMV3
-      ? await dnr.handleRelockAlarm(alarm.name)
-      : await webRequest.handleRelockAlarm(alarm.name);
+    if (await handleBadgeAlarm(alarm.name)) return;
+    if (await handlePauseAlarm(alarm.name)) {
+      await resumeBlocking();
+      return;
+    }
+
+    const exhaustedSiteIds = await handleTrackerAlarm(alarm.name);
+    if (exhaustedSiteIds) {
+      await handleBudgetExhausted(exhaustedSiteIds);
+      return;
+    }
+
+    if (await handleBudgetResetAlarm(alarm.name)) {
+      await blocker.sync();
+      return;
+    }
+
+    const activatedSiteIds = await handleScheduleAlarm(alarm.name);
+    if (activatedSiteIds) {
+      await blocker.sync();
+
+      // Tabs opened while the site was off-schedule get blocked as the window starts
+      for (const siteId of activatedSiteIds) {
+        if (await blocker.isSiteUnlocked(siteId)) continue;
+        const tabIds = await findTabsOnBlockedSite(siteId);
+        await redirectTabsToBlockedPage(siteId, tabIds);
+      }
+      return;
+    }
+
+    if (await handleWarningAlarm(alarm.name, blocker)) return;
+
+    const result = await blocker.handleRelockAlarm(alarm.name);
     if (!result) return;
 
-    const { siteId, tabsToRedirect } = result;
+    await redirectTabsToBlockedPage(result.siteId, result.tabsToRedirect);
+  });
 
-    for (const tabId of tabsToRedirect) {
-      try {
-        const tab = await browser.tabs.get(tabId);
-        if (!tab.url) continue;
-
-        const blockedPageUrl = browser.runtime.getURL(
-          `/blocked.html?url=${encodeURIComponent(tab.url)}&siteId=${encodeURIComponent(siteId)}`
-        );
-        await browser.tabs.update(tabId, { url: blockedPageUrl });
-        console.log(`[distracted] Redirected tab ${tabId} after relock`);
-      } catch (err) {
-        console.log(`[distracted] Could not redirect tab ${tabId}:`, err);
+  browser.commands.onCommand.addListener(async (command) => {
+    try {
+      switch (command) {
+        case COMMANDS.BLOCK_CURRENT_SITE:
+          await blockCurrentSite(blocker);
+          break;
+        case COMMANDS.RELOCK_ALL:
+          await relockAllSites(blocker);
+          break;
+        case COMMANDS.TOGGLE_PAUSE:
+          if (await isPaused()) {
+            await endPause();
+            await resumeBlocking();
+          } else {
+            await openPausePrompt();
+          }
+          break;
       }
+    } catch (err) {
+      console.error(`[distracted] Command ${command} failed:`, err);
+    }
+  });
+
+  browser.contextMenus.onClicked.addListener(async (info) => {
+    try {
+      const siteId = await handleContextMenuClick(info);
+      if (siteId) await redirectLockedTabs([siteId]);
+    } catch (err) {
+      console.error("[distracted] Context menu action failed:", err);
     }
   });
 
   async function checkAndBlockUrl(tabId: number, url: string, source: string) {
     if (isInternalUrl(url)) return;
+    if (await isPaused()) return;
 
     const site = await findMatchingBlockedSite(url);
     if (!site) return;
 
-    const unlocked = await isSiteUnlocked(site.id);
+    const unlocked = await blocker.isSiteUnlocked(site.id);
     if (unlocked) return;
+    if (await hasBudgetRemaining(site)) return;
 
     console.log(`[distracted] Blocking (${source}): ${url}`);
 
-    const blockedPageUrl = browser.runtime.getURL(
-      `/blocked.html?url=${encodeURIComponent(url)}&siteId=${encodeURIComponent(site.id)}`
-    );
-
     try {
-      await browser.tabs.update(tabId, { url: blockedPageUrl });
+      await redirectTabToBlockedPage(tabId, url, site.id);
     } catch (err) {
       console.error("[distracted] Failed to redirect to blocked page:", err);
     }
   }
 
-  browser.webNavigation.onBeforeNavigate.addListener(async (details) => {
+  // DNR redirects from urlFilter rules can't carry the URL they matched, so
+  // the blocked page looks up where its tab was headed
+  const pendingUrls = new Map<number, string>();
+
+  browser.webNavigation.onBeforeNavigate.addListener((details) => {
+    if (details.frameId !== 0) return;
+    if (!isInternalUrl(details.url))
+      pendingUrls.set(details.tabId, details.url);
+  });
+
+  browser.tabs.onRemoved.addListener((tabId) => {
+    pendingUrls.delete(tabId);
+  });
+
+  // DNR redirects before anything loads; this only catches what it missed,
+  // like patterns the browser rejected
+  browser.webNavigation.onCommitted.addListener(async (details) => {
     if (details.frameId !== 0) return;
     if (!isMV3) return;
-    await checkAndBlockUrl(details.tabId, details.url, "onBeforeNavigate");
+    await checkAndBlockUrl(details.tabId, details.url, "onCommitted");
   });
 
   browser.webNavigation.onHistoryStateUpdated.addListener(async (details) => {
@@ -110,7 +318,26 @@ export default defineBackground(() => {
     await checkAndBlockUrl(tabId, changeInfo.url, "tabs.onUpdated");
   });
 
-  browser.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  browser.tabs.onActivated.addListener(async ({ tabId }) => {
+    try {
+      const tab = await browser.tabs.get(tabId);
+      await updateTabBadge(tabId, tab.url);
+    } catch (err) {
+      console.error("[distracted] Failed to update badge:", err);
+    }
+  });
+
+  // Browsers reset per-tab badges when a tab navigates
+  browser.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
+    if (!changeInfo.url && changeInfo.status !== "complete") return;
+    try {
+      await updateTabBadge(tabId, tab.url);
+    } catch (err) {
+      console.error("[distracted] Failed to update badge:", err);
+    }
+  });
+
+  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
     (async () => {
       try {
         switch (message.type) {
@@ -119,7 +346,10 @@ export default defineBackground(() => {
             const site = await findMatchingBlockedSite(url);
             if (site) {
               const settings = await getSettings();
-              const unlocked = await isSiteUnlocked(site.id);
+              const unlocked =
+                (await isPaused()) ||
+                (await blocker.isSiteUnlocked(site.id)) ||
+                (await hasBudgetRemaining(site));
               sendResponse({
                 blocked: !unlocked,
                 site: unlocked ? null : site,
@@ -147,19 +377,24 @@ export default defineBackground(() => {
             }
 
             if (site) {
-              const unlockState = await getUnlockState(site.id);
+              const unlockState = await blocker.getUnlockState(site.id);
+              const budget = await getSiteBudgetStatus(site);
+              const escalation = await getSiteEscalationState(site);
               if (unlockState) {
                 sendResponse({
                   site,
                   statsEnabled: settings.statsEnabled,
                   alreadyUnlocked: true,
                   expiresAt: unlockState.expiresAt,
+                  budget,
                 });
               } else {
                 sendResponse({
                   site,
                   statsEnabled: settings.statsEnabled,
                   alreadyUnlocked: false,
+                  budget,
+                  escalation,
                 });
               }
             } else {
@@ -170,7 +405,7 @@ export default defineBackground(() => {
 
           case "CHECK_UNLOCK_STATE": {
             const { siteId } = message;
-            const unlockState = await getUnlockState(siteId);
+            const unlockState = await blocker.getUnlockState(siteId);
             sendResponse({
               unlocked: !!unlockState,
               expiresAt: unlockState?.expiresAt ?? null,
@@ -181,40 +416,47 @@ export default defineBackground(() => {
           case "UNLOCK_SITE": {
             const { siteId, durationMinutes } = message;
 
-            const { expiresAt } = isMV3
-              ? await dnr.grantAccess(siteId, durationMinutes)
-              : await webRequest.grantAccess(siteId, durationMinutes);
+            const sites = await getBlockedSites();
+            if (sites.find((s) => s.id === siteId)?.budget) {
+              sendResponse({
+                success: false,
+                error: "This site uses a daily time budget",
+              });
+              break;
+            }
+
+            const { expiresAt } = await blocker.grantAccess(
+              siteId,
+              durationMinutes
+            );
+            await recordUnlock(siteId);
+            await scheduleRelockWarning(siteId, expiresAt);
 
             sendResponse({ success: true, expiresAt });
             break;
           }
 
+          case "EXTEND_UNLOCK": {
+            sendResponse(await extendUnlock(message.siteId, blocker));
+            break;
+          }
+
           case "UPDATE_STATS": {
             const { siteId, update } = message;
-            (async () => {
-              const statsResult = await browser.storage.local.get("stats");
-              const stats = (statsResult["stats"] ?? []) as any[];
-              let siteStats = stats.find((s) => s.siteId === siteId);
-
-              if (!siteStats) {
-                siteStats = {
-                  siteId,
-                  visitCount: 0,
-                  passedCount: 0,
-                  timeSpentMs: 0,
-                  lastVisit: Date.now(),
-                };
-                stats.push(siteStats);
-              }
-
-              if (update.incrementVisit) siteStats.visitCount++;
-              if (update.incrementPassed) siteStats.passedCount++;
-              if (update.addTime) siteStats.timeSpentMs += update.addTime;
-              siteStats.lastVisit = Date.now();
+            updateSiteStats(siteId, update).catch((err) =>
+              console.error("[distracted] Failed to update stats:", err)
+            );
 
-              await browser.storage.local.set({ stats });
-            })().catch((err) => console.error("Failed to update stats:", err));
+            sendResponse({ success: true });
+            break;
+          }
 
+          case "LOG_UNLOCK_REASON": {
+            const { siteId, reason } = message;
+            const settings = await getSettings();
+            if (settings.statsEnabled && reason) {
+              await addUnlockReason(siteId, reason);
+            }
             sendResponse({ success: true });
             break;
           }
@@ -225,34 +467,86 @@ export default defineBackground(() => {
             break;
           }
 
+          case "GET_BLOCKED_URL": {
+            const tabId = sender.tab?.id;
+            sendResponse({
+              url:
+                tabId === undefined ? null : (pendingUrls.get(tabId) ?? null),
+            });
+            break;
+          }
+
           case "GET_CURRENT_TAB_URL": {
-            let url: string | null = null;
-            try {
-              const [tab] = await browser.tabs.query({
-                active: true,
-                currentWindow: true,
-              });
-              url = tab?.url || null;
-            } catch {
-              url = null;
-            }
+            const { url, domain } = await getCurrentTab();
+            sendResponse({ url, domain });
+            break;
+          }
 
-            let domain = "";
-            if (url) {
-              try {
-                const urlObj = new URL(url);
-                domain = urlObj.hostname.replace(/^www\./, "");
-              } catch {
-                domain = "";
-              }
-            }
+          case "GET_PAUSE_STATE": {
+            sendResponse(await getPauseState());
+            break;
+          }
 
-            sendResponse({ url, domain });
+          case "START_PAUSE": {
+            const { minutes, reason } = message;
+            const result = await startPause(minutes, reason);
+            if (result.success) await blocker.sync();
+            sendResponse(result);
+            break;
+          }
+
+          case "END_PAUSE": {
+            await endPause();
+            await resumeBlocking();
+            sendResponse({ success: true });
+            break;
+          }
+
+          case "GET_LOCKDOWN_STATE": {
+            sendResponse(await getLockdownState());
+            break;
+          }
+
+          case "START_LOCKDOWN": {
+            sendResponse(await startLockdown(message.hours));
+            break;
+          }
+
+          case "REQUEST_LOCKDOWN_END": {
+            sendResponse(await requestLockdownEnd());
+            break;
+          }
+
+          case "END_LOCKDOWN": {
+            sendResponse(await endLockdown());
+            break;
+          }
+
+          case "UPDATE_SITE": {
+            const { siteId, updates } = message;
+            sendResponse(await updateSite(siteId, updates));
+            break;
+          }
+
+          case "DELETE_SITE": {
+            sendResponse(await deleteSite(message.siteId));
+            break;
+          }
+
+          case "UPDATE_SETTINGS": {
+            sendResponse(await updateSettings(message.updates));
+            break;
+          }
+
+          case "IMPORT_BACKUP": {
+            sendResponse(
+              await importBackup(message.sites, message.mode, message.settings)
+            );
             break;
           }
 
           case "SYNC_RULES": {
-            await syncRules();
+            await blocker.sync();
             sendResponse({ success: true });
             break;
           }
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import { importBackup, revertWeakeningChanges } from "./lockdown";
+import { STORAGE_KEYS } from "@/lib/consts";
+import {
+  getBlockedSites,
+  saveBlockedSites,
+  saveLockdown,
+  type BlockedSite,
+} from "@/lib/storage";
+
+const site = (pattern: string): BlockedSite => ({
+  id: "site",
+  name: "Example",
+  rules: [{ pattern, kind: "domain", allow: false }],
+  challenges: [{ unlockMethod: "timer", challengeSettings: { duration: 30 } }],
+  autoRelockAfter: 10,
+  enabled: true,
+  createdAt: 0,
+});
+
+describe("revertWeakeningChanges", () => {
+  beforeEach(async () => {
+    fakeBrowser.reset();
+    await saveLockdown({ startedAt: 0, until: Date.now() + 60 * 60 * 1000 });
+  });
+
+  it("reverts a swapped rule once, not its own revert", async () => {
+    const before = [site("a.com")];
+    const after = [site("b.com")];
+    await saveBlockedSites(after);
+
+    await revertWeakeningChanges({
+      [STORAGE_KEYS.BLOCKED_SITES]: { oldValue: before, newValue: after },
+    });
+    expect(await getBlockedSites()).toEqual(before);
+
+    // The revert's own change event reads as the reverse swap
+    await revertWeakeningChanges({
+      [STORAGE_KEYS.BLOCKED_SITES]: { oldValue: after, newValue: before },
+    });
+    expect(await getBlockedSites()).toEqual(before);
+  });
+});
+
+describe("importBackup", () => {
+  beforeEach(() => fakeBrowser.reset());
+
+  it("refuses replacing rule sets during a lockdown", async () => {
+    await saveBlockedSites([site("a.com")]);
+    await saveLockdown({ startedAt: 0, until: Date.now() + 60 * 60 * 1000 });
+
+    const result = await importBackup([], "replace");
+    expect(result.success).toBe(false);
+    expect(await getBlockedSites()).toEqual([site("a.com")]);
+  });
+
+  it("imports outside a lockdown", async () => {
+    await saveBlockedSites([site("a.com")]);
+
+    expect(await importBackup([site("b.com")], "replace")).toEqual({
+      success: true,
+    });
+    expect(await getBlockedSites()).toEqual([site("b.com")]);
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  defaultSettings,
+  getBlockedSites,
+  getLockdown,
+  getSettings,
+  saveBlockedSites,
+  saveLockdown,
+  saveSettings,
+  type BlockedSite,
+  type Lockdown,
+  type Settings,
+} from "@/lib/storage";
+import { STORAGE_KEYS } from "@/lib/consts";
+import { mergeSites, type ImportMode } from "@/lib/backup";
+import {
+  canEndLockdown,
+  findSettingsWeakening,
+  findSitesWeakening,
+  getActiveLockdown,
+  getLockdownEndAllowedAt,
+  isLockdownWeakened,
+} from "@/lib/lockdown";
+
+type Result = { success: true } | { success: false; error: string };
+
+export async function getLockdownState(): Promise<{ until: number | null }> {
+  const active = getActiveLockdown(await getLockdown());
+  return { until: active?.until ?? null };
+}
+
+/**
+ * Start a lockdown, or push back the end of the running one. Extending also
+ * takes back a pending end request.
+ */
+export async function startLockdown(
+  hours: number
+): Promise<
+  { success: true; until: number } | { success: false; error: string }
+> {
+  if (!(hours > 0)) {
+    return { success: false, error: "Pick how long to lock down for" };
+  }
+
+  const now = Date.now();
+  const active = getActiveLockdown(await getLockdown(), now);
+  const until = Math.max(active?.until ?? 0, now + hours * 60 * 60 * 1000);
+  await saveLockdown({ startedAt: active?.startedAt ?? now, until });
+
+  console.log(`[distracted] Locked down until ${new Date(until)}`);
+  return { success: true, until };
+}
+
+/**
+ * Sent once the popup's end challenge is done, starts the wait before the
+ * lockdown can be ended
+ */
+export async function requestLockdownEnd(): Promise<
+  { success: true; allowedAt: number } | { success: false; error: string }
+> {
+  const active = getActiveLockdown(await getLockdown());
+  if (!active) return { success: false, error: "There's no lockdown to end" };
+
+  // Asking again doesn't restart the wait
+  const lockdown: Lockdown = {
+    ...active,
+    endRequestedAt: active.endRequestedAt ?? Date.now(),
+  };
+  await saveLockdown(lockdown);
+  return { success: true, allowedAt: getLockdownEndAllowedAt(lockdown)! };
+}
+
+export async function endLockdown(): Promise<Result> {
+  const active = getActiveLockdown(await getLockdown());
+  if (!active) return { success: true };
+
+  if (!canEndLockdown(active)) {
+    return {
+      success: false,
+      error:
+        active.endRequestedAt === undefined
+          ? "Complete the challenge to end the lockdown"
+          : "The wait before ending isn't over yet",
+    };
+  }
+
+  await saveLockdown(null);
+  console.log("[distracted] Lockdown ended early");
+  return { success: true };
+}
+
+async function saveSitesChecked(
+  update: (sites: BlockedSite[]) => BlockedSite[]
+): Promise<Result> {
+  const sites = await getBlockedSites();
+  const updated = update(sites);
+
+  if (getActiveLockdown(await getLockdown())) {
+    const error = findSitesWeakening(sites, updated);
+    if (error) return { success: false, error };
+  }
+
+  await saveBlockedSites(updated);
+  return { success: true };
+}
+
+export function updateSite(
+  siteId: string,
+  updates: Partial<BlockedSite>
+): Promise<Result> {
+  return saveSitesChecked((sites) =>
+    sites.map((s) => (s.id === siteId ? { ...s, ...updates } : s))
+  );
+}
+
+export function deleteSite(siteId: string): Promise<Result> {
+  return saveSitesChecked((sites) => sites.filter((s) => s.id !== siteId));
+}
+
+export async function updateSettings(
+  updates: Partial<Settings>
+): Promise<Result> {
+  const settings = await getSettings();
+  const updated = { ...settings, ...updates };
+
+  if (getActiveLockdown(await getLockdown())) {
+    const error = findSettingsWeakening(settings, updated);
+    if (error) return { success: false, error };
+  }
+
+  await saveSettings(updated);
+  return { success: true };
+}
+
+/**
+ * Import checked as a whole, so a refused part doesn't leave the rest saved
+ */
+export async function importBackup(
+  incoming: BlockedSite[],
+  mode: ImportMode,
+  importedSettings?: Partial<Settings>
+): Promise<Result> {
+  const [sites, settings] = await Promise.all([
+    getBlockedSites(),
+    getSettings(),
+  ]);
+  const updatedSites = mergeSites(sites, incoming, mode);
+  const updatedSettings = { ...settings, ...importedSettings };
+
+  if (getActiveLockdown(await getLockdown())) {
+    const error =
+      findSitesWeakening(sites, updatedSites) ??
+      findSettingsWeakening(settings, updatedSettings);
+    if (error) return { success: false, error };
+  }
+
+  await saveBlockedSites(updatedSites);
+  if (importedSettings) await saveSettings(updatedSettings);
+  return { success: true };
+}
+
+// What the last revert wrote by storage key. Its change event must not be
+// checked again, a swap reads as weakening both ways and would bounce forever.
+const revertedValues = new Map<string, string>();
+
+function isRevertWrite(
+  key: string,
+  change: Browser.storage.StorageChange
+): boolean {
+  const reverted = revertedValues.get(key);
+  revertedValues.delete(key);
+  return reverted === JSON.stringify(change.newValue ?? null);
+}
+
+async function revert<T>(
+  key: string,
+  value: T,
+  save: (value: T) => Promise<void>
+): Promise<void> {
+  revertedValues.set(key, JSON.stringify(value));
+  await save(value);
+}
+
+/**
+ * Undo weakening writes that didn't go through the checks above, e.g. an
+ * import or an outdated popup
+ */
+export async function revertWeakeningChanges(
+  changes: Record<string, Browser.storage.StorageChange>
+): Promise<void> {
+  const [lockdownChange, sitesChange, settingsChange] = [
+    STORAGE_KEYS.LOCKDOWN,
+    STORAGE_KEYS.BLOCKED_SITES,
+    STORAGE_KEYS.SETTINGS,
+  ].map((key) =>
+    changes[key] && !isRevertWrite(key, changes[key]) ? changes[key] : undefined
+  );
+
+  if (lockdownChange) {
+    const before = getActiveLockdown(
+      (lockdownChange.oldValue as Lockdown | undefined) ?? null
+    );
+    const after = (lockdownChange.newValue as Lockdown | undefined) ?? null;
+    if (before && isLockdownWeakened(before, after)) {
+      console.log("[distracted] Reverted an early end of the lockdown");
+      await revert(STORAGE_KEYS.LOCKDOWN, before, saveLockdown);
+      return;
+    }
+  }
+
+  if (!sitesChange && !settingsChange) return;
+  if (!getActiveLockdown(await getLockdown())) return;
+
+  if (sitesChange?.oldValue) {
+    const before = sitesChange.oldValue as BlockedSite[];
+    const error = findSitesWeakening(
+      before,
+      (sitesChange.newValue ?? []) as BlockedSite[]
+    );
+    if (error) {
+      console.log(`[distracted] Reverted rule sets: ${error}`);
+      await revert(STORAGE_KEYS.BLOCKED_SITES, before, saveBlockedSites);
+    }
+  }
+
+  if (settingsChange) {
+    // Settings are stored without the defaults they're read with
+    const before: Settings = {
+      ...defaultSettings,
+      ...(settingsChange.oldValue as Partial<Settings> | undefined),
+    };
+    const after: Settings = {
+      ...defaultSettings,
+      ...(settingsChange.newValue as Partial<Settings> | undefined),
+    };
+    const error = findSettingsWeakening(before, after);
+    if (error) {
+      console.log(`[distracted] Reverted settings: ${error}`);
+      await revert(STORAGE_KEYS.SETTINGS, before, saveSettings);
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import {
+  addBlockedSite,
+  getBlockedSites,
+  updateBlockedSite,
+  type PatternRule,
+} from "@/lib/storage";
+import { DEFAULT_AUTO_RELOCK } from "@/lib/consts";
+import { isInternalUrl } from "./utils";
+
+const MENU_ROOT = "distracted";
+const NEW_SITE = "new";
+
+type MenuAction =
+  "block-site" | "block-subdomains" | "block-path" | "allow-path";
+
+const MENU_ACTIONS: { action: MenuAction; title: string }[] = [
+  { action: "block-site", title: "Block this site" },
+  { action: "block-subdomains", title: "Block this site and its subdomains" },
+  { action: "block-path", title: "Block this path" },
+  { action: "allow-path", title: "Allow this path" },
+];
+
+/**
+ * The rule a menu action adds for the clicked page or link
+ */
+function getRuleForUrl(url: string, action: MenuAction): PatternRule | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+  if (!urlObj.protocol.startsWith("http")) return null;
+
+  const domain = urlObj.hostname.replace(/^www\./, "");
+  const path = urlObj.pathname.replace(/\/$/, "");
+
+  switch (action) {
+    case "block-site":
+      return { pattern: domain, kind: "domain", allow: false };
+    case "block-subdomains":
+      return { pattern: `*.${domain}`, kind: "wildcard", allow: false };
+    case "block-path":
+      return { pattern: `${domain}${path || "/"}`, kind: "path", allow: false };
+    case "allow-path":
+      return { pattern: `${domain}${path || "/"}`, kind: "path", allow: true };
+  }
+}
+
+// Every entry shows on pages and links
+function createMenu(
+  properties: Omit<Browser.contextMenus.CreateProperties, "contexts">
+): void {
+  browser.contextMenus.create({ ...properties, contexts: ["page", "link"] });
+}
+
+let menuQueue: Promise<unknown> = Promise.resolve();
+
+async function buildContextMenus(): Promise<void> {
+  const sites = await getBlockedSites();
+  await browser.contextMenus.removeAll();
+
+  createMenu({ id: MENU_ROOT, title: "distracted" });
+
+  for (const { action, title } of MENU_ACTIONS) {
+    // An allow rule on its own would block nothing
+    const allowsNewSite = action !== "allow-path";
+    if (!allowsNewSite && sites.length === 0) continue;
+
+    createMenu({
+      // Without a choice to make the action applies directly
+      id: sites.length > 1 ? action : `${action}:${sites[0]?.id ?? NEW_SITE}`,
+      parentId: MENU_ROOT,
+      title,
+    });
+    if (sites.length <= 1) continue;
+
+    // Pick the rule set to add to
+    for (const site of sites) {
+      createMenu({
+        id: `${action}:${site.id}`,
+        parentId: action,
+        title: site.name,
+      });
+    }
+    if (allowsNewSite) {
+      createMenu({
+        id: `${action}:separator`,
+        parentId: action,
+        type: "separator",
+      });
+      createMenu({
+        id: `${action}:${NEW_SITE}`,
+        parentId: action,
+        title: "New Rule Set",
+      });
+    }
+  }
+}
+
+/**
+ * Rebuild the menus after the rule sets changed. Rebuilds run one at a time
+ * so ids from an unfinished one don't collide.
+ */
+export function updateContextMenus(): Promise<void> {
+  const run = menuQueue.then(buildContextMenus);
+  menuQueue = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Add the rule for a menu click. Returns the id of the site that now blocks
+ * more, or null if nothing new is blocked.
+ */
+export async function handleContextMenuClick(
+  info: Browser.contextMenus.OnClickData
+): Promise<string | null> {
+  const [action, target] = String(info.menuItemId).split(":");
+  const url = info.linkUrl ?? info.pageUrl;
+  if (!target || !url || isInternalUrl(url)) return null;
+
+  const rule = getRuleForUrl(url, action as MenuAction);
+  if (!rule) return null;
+
+  if (target === NEW_SITE) {
+    const site = await addBlockedSite({
+      name: rule.pattern.replace(/^\*\./, ""),
+      rules: [rule],
+      challenges: [
+        { unlockMethod: "timer", challengeSettings: { duration: 10 } },
+      ],
+      autoRelockAfter: DEFAULT_AUTO_RELOCK,
+      enabled: true,
+    });
+    console.log(`[distracted] Created "${site.name}" from the context menu`);
+    return site.id;
+  }
+
+  const sites = await getBlockedSites();
+  const site = sites.find((s) => s.id === target);
+  if (!site) return null;
+
+  const exists = site.rules.some(
+    (r) =>
+      r.pattern === rule.pattern &&
+      r.kind === rule.kind &&
+      r.allow === rule.allow
+  );
+  if (!exists) {
+    await updateBlockedSite(site.id, { rules: [...site.rules, rule] });
+    console.log(
+      `[distracted] Added ${rule.allow ? "allow" : "block"} rule ${rule.pattern} to "${site.name}"`
+    );
+  }
+  return rule.allow ? null : site.id;
+}
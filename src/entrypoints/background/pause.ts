@@ -0,0 +1,123 @@
+import { getLockdown, getPauses, getSettings, savePauses } from "@/lib/storage";
+import { PAUSE_ALARM, POPUP_VIEW_KEY } from "@/lib/consts";
+import {
+  PAUSE_DURATIONS,
+  countPausesToday,
+  getActivePause,
+  getPauseEnd,
+  prunePauses,
+} from "@/lib/pause";
+import { getActiveLockdown } from "@/lib/lockdown";
+import { action } from "./utils";
+
+export interface PauseState {
+  until: number | null; // when blocking resumes, null = not paused
+  pausesToday: number;
+  maxPausesPerDay: number;
+}
+
+export async function getPauseState(): Promise<PauseState> {
+  const [pauses, settings] = await Promise.all([getPauses(), getSettings()]);
+  const active = getActivePause(pauses);
+  return {
+    until: active ? getPauseEnd(active) : null,
+    pausesToday: countPausesToday(pauses),
+    maxPausesPerDay: settings.maxPausesPerDay,
+  };
+}
+
+export async function isPaused(): Promise<boolean> {
+  return getActivePause(await getPauses()) !== null;
+}
+
+export async function startPause(
+  minutes: number,
+  reason?: string
+): Promise<
+  { success: true; until: number } | { success: false; error: string }
+> {
+  // Only the offered lengths, or one pause could outlast the daily limit
+  if (!PAUSE_DURATIONS.includes(minutes)) {
+    return { success: false, error: "Pick how long to pause for" };
+  }
+
+  const [pauses, settings, lockdown] = await Promise.all([
+    getPauses(),
+    getSettings(),
+    getLockdown(),
+  ]);
+  if (getActiveLockdown(lockdown)) {
+    return {
+      success: false,
+      error: "Blocking can't be paused during lockdown",
+    };
+  }
+  if (getActivePause(pauses)) {
+    return { success: false, error: "Blocking is already paused" };
+  }
+  if (countPausesToday(pauses) >= settings.maxPausesPerDay) {
+    return {
+      success: false,
+      error: `No pauses left today (${settings.maxPausesPerDay} per day)`,
+    };
+  }
+
+  const now = Date.now();
+  const until = now + minutes * 60 * 1000;
+  await savePauses(
+    prunePauses([...pauses, { startedAt: now, until, reason }], now)
+  );
+
+  await browser.alarms.create(PAUSE_ALARM, { when: until });
+
+  console.log(`[distracted] Paused all blocking for ${minutes} minutes`);
+  return { success: true, until };
+}
+
+/**
+ * Resume blocking, early or because the pause ran out
+ */
+export async function endPause(): Promise<void> {
+  const pauses = await getPauses();
+  const active = getActivePause(pauses);
+  if (active) {
+    active.endedAt = Date.now();
+    await savePauses(pauses);
+  }
+
+  await browser.alarms.clear(PAUSE_ALARM);
+
+  console.log("[distracted] Blocking resumed");
+}
+
+/**
+ * Pausing always goes through the challenge, so the shortcut opens the popup
+ * on the pause view instead of pausing directly
+ */
+export async function openPausePrompt(): Promise<void> {
+  await browser.storage.session.set({ [POPUP_VIEW_KEY]: "pause" });
+  try {
+    await action.openPopup();
+  } catch (err) {
+    console.log("[distracted] Could not open the popup:", err);
+  }
+}
+
+/**
+ * Re-arm the alarm for a pause that survived a browser restart
+ */
+export async function restorePause(): Promise<void> {
+  const active = getActivePause(await getPauses());
+  if (active) {
+    await browser.alarms.create(PAUSE_ALARM, { when: getPauseEnd(active) });
+  }
+}
+
+/**
+ * Returns true if the alarm ended the pause
+ */
+export async function handlePauseAlarm(alarmName: string): Promise<boolean> {
+  if (alarmName !== PAUSE_ALARM) return false;
+  await endPause();
+  return true;
+}
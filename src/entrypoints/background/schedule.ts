@@ -0,0 +1,49 @@
+import { getBlockedSites, isSiteActive } from "@/lib/storage";
+import { getNextScheduleBoundary } from "@/lib/schedule";
+import { SCHEDULE_ALARM } from "@/lib/consts";
+
+/**
+ * Point the schedule alarm at the next window start/end across all sites
+ */
+export async function scheduleNextBoundary(): Promise<void> {
+  const sites = await getBlockedSites();
+  const now = new Date();
+  let next: number | null = null;
+
+  for (const site of sites) {
+    if (!site.enabled || !site.schedule) continue;
+
+    const boundary = getNextScheduleBoundary(site.schedule, now);
+    if (boundary !== null && (next === null || boundary < next)) {
+      next = boundary;
+    }
+  }
+
+  if (next === null) {
+    await browser.alarms.clear(SCHEDULE_ALARM);
+    return;
+  }
+
+  await browser.alarms.create(SCHEDULE_ALARM, { when: next });
+  console.log(
+    `[distracted] Next schedule boundary at ${new Date(next).toLocaleString()}`
+  );
+}
+
+/**
+ * Returns the ids of scheduled sites that are active now, or null if the
+ * alarm isn't the schedule alarm
+ */
+export async function handleScheduleAlarm(
+  alarmName: string
+): Promise<string[] | null> {
+  if (alarmName !== SCHEDULE_ALARM) return null;
+
+  console.log("[distracted] Schedule boundary reached");
+  await scheduleNextBoundary();
+
+  const sites = await getBlockedSites();
+  return sites
+    .filter((site) => site.schedule && isSiteActive(site))
+    .map((site) => site.id);
+}
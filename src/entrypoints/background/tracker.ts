@@ -0,0 +1,220 @@
+import {
+  getBlockedSites,
+  getBudgetUsage,
+  getSettings,
+  saveBudgetUsage,
+  updateSiteStats,
+  urlMatchesSiteRules,
+} from "@/lib/storage";
+import {
+  getBudgetPeriodStart,
+  getBudgetStatus,
+  getNextBudgetReset,
+} from "@/lib/budget";
+import {
+  ACTIVE_SESSION_KEY,
+  BUDGET_ALARM,
+  BUDGET_RESET_ALARM,
+  TRACKER_ALARM,
+} from "@/lib/consts";
+import { isInternalUrl } from "./utils";
+
+interface ActiveSession {
+  siteId: string;
+  tabId: number;
+  since: number;
+}
+
+const IDLE_DETECTION_SECONDS = 60;
+const FLUSH_INTERVAL_MINUTES = 1;
+// Anything longer than this between flushes is the machine sleeping
+const MAX_FLUSH_GAP_MS = 2 * FLUSH_INTERVAL_MINUTES * 60 * 1000;
+
+async function getActiveSession(): Promise<ActiveSession | null> {
+  const result = await browser.storage.session.get(ACTIVE_SESSION_KEY);
+  return (result[ACTIVE_SESSION_KEY] as ActiveSession | undefined) ?? null;
+}
+
+async function setActiveSession(session: ActiveSession | null): Promise<void> {
+  if (session) {
+    await browser.storage.session.set({ [ACTIVE_SESSION_KEY]: session });
+  } else {
+    await browser.storage.session.remove(ACTIVE_SESSION_KEY);
+  }
+}
+
+/**
+ * Find the blocked site the user is looking at right now: the active tab of
+ * the focused window, while the user isn't idle. A tab showing the site
+ * itself rather than the blocked page means it's unlocked or within budget.
+ */
+async function findActiveSession(): Promise<ActiveSession | null> {
+  const idleState = await browser.idle.queryState(IDLE_DETECTION_SECONDS);
+  if (idleState !== "active") return null;
+
+  const focusedWindow = await browser.windows.getLastFocused();
+  if (!focusedWindow.focused || focusedWindow.id === undefined) return null;
+
+  const [tab] = await browser.tabs.query({
+    active: true,
+    windowId: focusedWindow.id,
+  });
+  if (!tab?.id || !tab.url || isInternalUrl(tab.url)) return null;
+
+  const sites = await getBlockedSites();
+  const site = sites.find((s) => urlMatchesSiteRules(tab.url!, s));
+  if (!site) return null;
+
+  return { siteId: site.id, tabId: tab.id, since: Date.now() };
+}
+
+/**
+ * Add the time since the session started to its site's stats and budget.
+ * Returns the site id if that used up the budget.
+ */
+async function flushSession(session: ActiveSession): Promise<string | null> {
+  const sites = await getBlockedSites();
+  const site = sites.find((s) => s.id === session.siteId);
+  if (!site) return null;
+
+  const now = new Date();
+  const elapsed = Math.max(
+    0,
+    Math.min(now.getTime() - session.since, MAX_FLUSH_GAP_MS)
+  );
+
+  const settings = await getSettings();
+  if (settings.statsEnabled && elapsed > 0) {
+    await updateSiteStats(site.id, { addTime: elapsed });
+  }
+
+  if (!site.budget) return null;
+
+  const usage = await getBudgetUsage();
+  const usedMs = getBudgetStatus(site.budget, usage[site.id], now).usedMs;
+
+  usage[site.id] = {
+    usedMs: usedMs + elapsed,
+    periodStart: getBudgetPeriodStart(site.budget.resetTime, now),
+  };
+  await saveBudgetUsage(usage);
+
+  const status = getBudgetStatus(site.budget, usage[site.id], now);
+  return status.remainingMs <= 0 ? site.id : null;
+}
+
+async function scheduleBudgetAlarm(session: ActiveSession | null) {
+  await browser.alarms.clear(BUDGET_ALARM);
+  if (!session) return;
+
+  const sites = await getBlockedSites();
+  const site = sites.find((s) => s.id === session.siteId);
+  if (!site?.budget) return;
+
+  const usage = await getBudgetUsage();
+  const { remainingMs } = getBudgetStatus(site.budget, usage[site.id]);
+  await browser.alarms.create(BUDGET_ALARM, {
+    when: session.since + remainingMs,
+  });
+}
+
+let updateQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Close the current session and start a new one for whatever the user is
+ * looking at now. Returns ids of sites whose budget has run out.
+ */
+export function updateActiveSession(): Promise<string[]> {
+  // Events arrive in bursts (tab switch + focus change), serialize them so
+  // the same stretch of time isn't flushed twice
+  const run = updateQueue.then(switchActiveSession, switchActiveSession);
+  updateQueue = run.catch(() => {});
+  return run;
+}
+
+async function switchActiveSession(): Promise<string[]> {
+  const exhausted: string[] = [];
+
+  const current = await getActiveSession();
+  if (current) {
+    const siteId = await flushSession(current);
+    if (siteId) exhausted.push(siteId);
+  }
+
+  const next = await findActiveSession();
+  if (next && exhausted.includes(next.siteId)) {
+    await setActiveSession(null);
+    await scheduleBudgetAlarm(null);
+    return exhausted;
+  }
+
+  await setActiveSession(next);
+  await scheduleBudgetAlarm(next);
+  return exhausted;
+}
+
+/**
+ * Point the reset alarm at the next time any site's budget refills
+ */
+export async function scheduleBudgetReset(): Promise<void> {
+  const sites = await getBlockedSites();
+  let next: number | null = null;
+
+  for (const site of sites) {
+    if (!site.enabled || !site.budget) continue;
+    const reset = getNextBudgetReset(site.budget.resetTime);
+    if (next === null || reset < next) next = reset;
+  }
+
+  if (next === null) {
+    await browser.alarms.clear(BUDGET_RESET_ALARM);
+    return;
+  }
+
+  await browser.alarms.create(BUDGET_RESET_ALARM, { when: next });
+}
+
+/**
+ * Returns ids of sites whose budget ran out, or null if the alarm isn't a
+ * tracker alarm
+ */
+export async function handleTrackerAlarm(
+  alarmName: string
+): Promise<string[] | null> {
+  if (alarmName !== TRACKER_ALARM && alarmName !== BUDGET_ALARM) return null;
+  return updateActiveSession();
+}
+
+export async function handleBudgetResetAlarm(
+  alarmName: string
+): Promise<boolean> {
+  if (alarmName !== BUDGET_RESET_ALARM) return false;
+
+  console.log("[distracted] Daily budgets reset");
+  await scheduleBudgetReset();
+  return true;
+}
+
+export async function initializeTracker(
+  onChange: () => Promise<void>
+): Promise<void> {
+  const handleChange = () => {
+    onChange().catch((err) => {
+      console.error("[distracted] Failed to update active session:", err);
+    });
+  };
+
+  browser.tabs.onActivated.addListener(handleChange);
+  browser.tabs.onUpdated.addListener((_tabId, changeInfo) => {
+    if (changeInfo.url) handleChange();
+  });
+  browser.windows.onFocusChanged.addListener(handleChange);
+  browser.idle.onStateChanged.addListener(handleChange);
+
+  browser.idle.setDetectionInterval(IDLE_DETECTION_SECONDS);
+  await browser.alarms.create(TRACKER_ALARM, {
+    periodInMinutes: FLUSH_INTERVAL_MINUTES,
+  });
+  await scheduleBudgetReset();
+  await onChange();
+}
@@ -1,3 +1,6 @@
+// MV2 Firefox only has browserAction
+export const action = browser.action ?? browser.browserAction;
+
 export function isInternalUrl(url: string): boolean {
   if (!url) return false;
 
@@ -11,3 +14,63 @@ export function isInternalUrl(url: string): boolean {
     "about:",
   ].some((scheme) => url.startsWith(scheme));
 }
+
+/**
+ * The active tab of the current window and its domain without `www.`
+ */
+export async function getCurrentTab(): Promise<{
+  id: number | null;
+  url: string | null;
+  domain: string;
+}> {
+  let id: number | null = null;
+  let url: string | null = null;
+  try {
+    const [tab] = await browser.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+    id = tab?.id ?? null;
+    url = tab?.url || null;
+  } catch {
+    url = null;
+  }
+
+  let domain = "";
+  if (url) {
+    try {
+      const urlObj = new URL(url);
+      domain = urlObj.hostname.replace(/^www\./, "");
+    } catch {
+      domain = "";
+    }
+  }
+
+  return { id, url, domain };
+}
+
+export const BLOCKED_PAGE_PATH = "/blocked.html";
+
+export function getBlockedPageUrl(url: string, siteId: string): string {
+  return browser.runtime.getURL(
+    `${BLOCKED_PAGE_PATH}?url=${encodeURIComponent(url)}&siteId=${encodeURIComponent(siteId)}`
+  );
+}
+
+/**
+ * DNR redirect to the blocked page. Rules with a regex anchored to the whole
+ * URL can append the original URL (unencoded, so it has to come last); for
+ * the others the blocked page asks the background which URL the tab was
+ * navigating to.
+ */
+export function getBlockedPageRedirect(
+  siteId: string,
+  withMatchedUrl: boolean
+): Browser.declarativeNetRequest.Redirect {
+  const path =
+    `${BLOCKED_PAGE_PATH}?siteId=${encodeURIComponent(siteId)}` as const;
+  if (!withMatchedUrl) return { extensionPath: path };
+  return {
+    regexSubstitution: `${browser.runtime.getURL(path)}&rawUrl=\\0`,
+  };
+}
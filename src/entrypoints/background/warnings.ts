@@ -0,0 +1,127 @@
+import { getBlockedSites, getSettings } from "@/lib/storage";
+import { WARNING_ALARM_PREFIX } from "@/lib/consts";
+import type { Blocker } from "./blockers/blocker";
+import { findTabsOnBlockedSite } from "./blockers/tabs";
+
+const warningAlarm = (siteId: string) => `${WARNING_ALARM_PREFIX}${siteId}`;
+const warningNotification = (siteId: string) => `relock-warning-${siteId}`;
+
+const OVERLAY_SCRIPT = "/content-scripts/relock-warning.js";
+
+async function injectOverlay(tabId: number): Promise<void> {
+  if (import.meta.env.MANIFEST_VERSION === 3) {
+    await browser.scripting.executeScript({
+      target: { tabId },
+      files: [OVERLAY_SCRIPT],
+    });
+  } else {
+    await browser.tabs.executeScript(tabId, { file: OVERLAY_SCRIPT });
+  }
+}
+
+/**
+ * Tell tabs on the site, injecting the overlay first for a new warning. Tabs
+ * the overlay can't run in (or that never got it) are skipped.
+ */
+async function sendToSiteTabs(
+  siteId: string,
+  message: Record<string, unknown>,
+  inject = false
+): Promise<void> {
+  for (const tabId of await findTabsOnBlockedSite(siteId)) {
+    try {
+      if (inject) await injectOverlay(tabId);
+      await browser.tabs.sendMessage(tabId, message);
+    } catch {
+      // Restricted page, or closed in the meantime
+    }
+  }
+}
+
+/**
+ * Warn ahead of the relock, unless warnings are off or it's too close already
+ */
+export async function scheduleRelockWarning(
+  siteId: string,
+  expiresAt: number
+): Promise<void> {
+  const { relockWarningMinutes } = await getSettings();
+  const when = expiresAt - relockWarningMinutes * 60 * 1000;
+
+  if (relockWarningMinutes <= 0 || when <= Date.now()) {
+    await browser.alarms.clear(warningAlarm(siteId));
+    return;
+  }
+  await browser.alarms.create(warningAlarm(siteId), { when });
+}
+
+/**
+ * Returns true if the alarm was a relock warning
+ */
+export async function handleWarningAlarm(
+  alarmName: string,
+  blocker: Blocker
+): Promise<boolean> {
+  if (!alarmName.startsWith(WARNING_ALARM_PREFIX)) return false;
+
+  const siteId = alarmName.slice(WARNING_ALARM_PREFIX.length);
+  const unlock = await blocker.getUnlockState(siteId);
+  const sites = await getBlockedSites();
+  const site = sites.find((s) => s.id === siteId);
+  // Relocked early or deleted since the warning was scheduled
+  if (!unlock || !site) return true;
+
+  const settings = await getSettings();
+  const minutes = Math.max(
+    1,
+    Math.round((unlock.expiresAt - Date.now()) / 60000)
+  );
+  console.log(`[distracted] ${site.name} relocks in ${minutes} minutes`);
+
+  await browser.notifications.create(warningNotification(siteId), {
+    type: "basic",
+    iconUrl: browser.runtime.getURL("/icon/128.png"),
+    title: `${site.name} locks again in ${minutes} min`,
+    message: "Finish up, or extend from the page you're on.",
+  });
+
+  await sendToSiteTabs(
+    siteId,
+    {
+      type: "RELOCK_WARNING",
+      siteId,
+      siteName: site.name,
+      expiresAt: unlock.expiresAt,
+      extendMinutes: settings.relockExtendMinutes,
+    },
+    true
+  );
+  return true;
+}
+
+/**
+ * Push an unlock's expiry back by the configured extension
+ */
+export async function extendUnlock(
+  siteId: string,
+  blocker: Blocker
+): Promise<
+  { success: true; expiresAt: number } | { success: false; error: string }
+> {
+  const unlock = await blocker.getUnlockState(siteId);
+  if (!unlock) {
+    return { success: false, error: "This site is already locked again" };
+  }
+
+  const { relockExtendMinutes } = await getSettings();
+  const remainingMinutes = (unlock.expiresAt - Date.now()) / 60000;
+  const { expiresAt } = await blocker.grantAccess(
+    siteId,
+    remainingMinutes + relockExtendMinutes
+  );
+  await scheduleRelockWarning(siteId, expiresAt);
+  await browser.notifications.clear(warningNotification(siteId));
+
+  await sendToSiteTabs(siteId, { type: "RELOCK_EXTENDED", siteId, expiresAt });
+  return { success: true, expiresAt };
+}
@@ -1,5 +1,11 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { type BlockedSite } from "@/lib/storage";
+import { type BudgetStatus } from "@/lib/budget";
+import {
+  formatEscalationWindow,
+  formatMultiplier,
+  type EscalationState,
+} from "@/lib/escalation";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -15,36 +21,77 @@ import {
   IconArrowRight,
   IconArrowLeft,
   IconLockOpen,
+  IconHourglass,
+  IconTrendingUp,
 } from "@tabler/icons-react";
-import { CHALLENGES, type ChallengeSettingsMap } from "@/components/challenges";
+import {
+  CHALLENGES,
+  resolveChallengeSettings,
+  scaleChallengeSettings,
+  type ChallengeResult,
+  type ChallengeSettingsMap,
+} from "@/components/challenges";
+
+function ordinal(n: number): string {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+}
+
+const RAW_URL_PARAM = "&rawUrl=";
+
+/**
+ * DNR regex redirects append the blocked URL unencoded as the last
+ * parameter, other DNR redirects leave it to the background to remember
+ */
+async function getOriginalUrl(params: URLSearchParams): Promise<string | null> {
+  const href = window.location.href;
+  const rawIndex = href.indexOf(RAW_URL_PARAM);
+  if (rawIndex !== -1) return href.slice(rawIndex + RAW_URL_PARAM.length);
+
+  const url = params.get("url");
+  if (url) return url;
+
+  const result = await browser.runtime.sendMessage({ type: "GET_BLOCKED_URL" });
+  return result?.url ?? null;
+}
 
 export default function BlockedPage() {
   const [blockedSite, setBlockedSite] = useState<BlockedSite | null>(null);
   const [originalUrl, setOriginalUrl] = useState<string | null>(null);
   const [challengeComplete, setChallengeComplete] = useState(false);
+  const [stepIndex, setStepIndex] = useState(0);
   const [alreadyUnlocked, setAlreadyUnlocked] = useState(false);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [escalation, setEscalation] = useState<EscalationState | null>(null);
   const [statsEnabled, setStatsEnabled] = useState(true);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [unlocking, setUnlocking] = useState(false);
   const visitTracked = useRef(false);
   const siteIdRef = useRef<string | null>(null);
+  const stepIndexRef = useRef(0);
+  const stepCountRef = useRef(0);
+  const challengeResultsRef = useRef<ChallengeResult[]>([]);
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
-    const url = params.get("url");
     const siteId = params.get("siteId");
-
-    if (!url) {
-      setError("No URL provided");
-      setLoading(false);
-      return;
-    }
-
-    setOriginalUrl(url);
     siteIdRef.current = siteId;
 
     (async () => {
+      const url = await getOriginalUrl(params);
+      if (!url) {
+        setError("No URL provided");
+        setLoading(false);
+        return;
+      }
+
+      setOriginalUrl(url);
+      // Keep the URL in a form that survives a reload
+      const search = new URLSearchParams({ url, siteId: siteId ?? "" });
+      window.history.replaceState(null, "", `?${search}`);
+
       try {
         const result = await browser.runtime.sendMessage({
           type: "GET_SITE_INFO",
@@ -58,12 +105,27 @@ export default function BlockedPage() {
           setBlockedSite(result.site);
           setStatsEnabled(result.statsEnabled);
           siteIdRef.current = result.site.id;
+          stepCountRef.current = result.site.challenges.length;
+
+          if (stepCountRef.current === 0) {
+            setChallengeComplete(true);
+          }
 
           if (result.alreadyUnlocked) {
             setAlreadyUnlocked(true);
             setChallengeComplete(true);
           }
 
+          if (result.escalation) {
+            setEscalation(result.escalation);
+          }
+
+          if (result.budget) {
+            setBudget(result.budget);
+            // Budgeted sites have no challenge, only time left or not
+            setChallengeComplete(result.budget.remainingMs > 0);
+          }
+
           if (
             result.statsEnabled &&
             !visitTracked.current &&
@@ -118,9 +180,28 @@ export default function BlockedPage() {
     };
   }, []);
 
-  const handleChallengeComplete = useCallback(() => {
-    setChallengeComplete(true);
-  }, []);
+  const handleStepComplete = useCallback(
+    (index: number, result?: ChallengeResult) => {
+      // Challenges can report completion more than once, only count it once
+      if (index !== stepIndexRef.current) return;
+      if (result) challengeResultsRef.current.push(result);
+
+      const next = index + 1;
+      if (next >= stepCountRef.current) {
+        setChallengeComplete(true);
+        return;
+      }
+
+      stepIndexRef.current = next;
+      setStepIndex(next);
+    },
+    []
+  );
+
+  const handleChallengeComplete = useCallback(
+    (result?: ChallengeResult) => handleStepComplete(stepIndex, result),
+    [handleStepComplete, stepIndex]
+  );
 
   const handleUnlock = useCallback(async () => {
     if (!blockedSite || !originalUrl) return;
@@ -128,7 +209,7 @@ export default function BlockedPage() {
     setUnlocking(true);
 
     try {
-      if (alreadyUnlocked) {
+      if (alreadyUnlocked || (budget && budget.remainingMs > 0)) {
         window.location.href = originalUrl;
         return;
       }
@@ -146,6 +227,18 @@ export default function BlockedPage() {
             siteId: blockedSite.id,
             update: { incrementPassed: true },
           });
+
+          const reason = challengeResultsRef.current
+            .map((r) => r.reason)
+            .filter(Boolean)
+            .join("\n\n");
+          if (reason) {
+            await browser.runtime.sendMessage({
+              type: "LOG_UNLOCK_REASON",
+              siteId: blockedSite.id,
+              reason,
+            });
+          }
         }
 
         window.location.href = originalUrl;
@@ -158,7 +251,7 @@ export default function BlockedPage() {
       setError("Failed to unlock site");
       setUnlocking(false);
     }
-  }, [blockedSite, originalUrl, statsEnabled, alreadyUnlocked]);
+  }, [blockedSite, originalUrl, statsEnabled, alreadyUnlocked, budget]);
 
   const handleGoBack = useCallback(() => {
     if (window.history.length > 1) {
@@ -198,13 +291,22 @@ export default function BlockedPage() {
     return null;
   }
 
-  const challenge = CHALLENGES[blockedSite.unlockMethod];
-  const challengeSettings =
-    blockedSite.challengeSettings as typeof challenge extends {
-      render: (props: infer P extends { settings: any }) => any;
-    }
-      ? P["settings"]
-      : never;
+  const steps = blockedSite.challenges;
+  const step = steps[Math.min(stepIndex, steps.length - 1)];
+  const challenge = CHALLENGES[step?.unlockMethod ?? "timer"];
+  const challengeSettings = (
+    step
+      ? scaleChallengeSettings(
+          step.unlockMethod,
+          resolveChallengeSettings(step.unlockMethod, step.challengeSettings),
+          escalation?.multiplier ?? 1
+        )
+      : {}
+  ) as typeof challenge extends {
+    render: (props: infer P extends { settings: any }) => any;
+  }
+    ? P["settings"]
+    : never;
 
   return (
     <div
@@ -256,19 +358,78 @@ export default function BlockedPage() {
                 </div>
               </div>
             </div>
-          ) : (
+          ) : budget ? (
+            <div className="p-4 rounded-lg bg-muted/30">
+              <div className="flex items-center gap-3">
+                <IconHourglass className="size-6 text-primary" />
+                <div>
+                  <p className="font-medium">
+                    {budget.remainingMs > 0
+                      ? `${Math.ceil(budget.remainingMs / 60000)} of ${Math.round(budget.limitMs / 60000)} minutes left today`
+                      : "Daily budget used up"}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Resets at{" "}
+                    {new Date(budget.resetsAt).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </p>
+                </div>
+              </div>
+            </div>
+          ) : step ? (
             <div className="p-3 rounded-lg bg-muted/30">
+              {escalation && escalation.multiplier > 1 && (
+                <div className="flex items-center gap-2 mb-3 p-2 rounded-md bg-destructive/10 text-destructive text-xs">
+                  <IconTrendingUp className="size-4 shrink-0" />
+                  <span>
+                    This is your {ordinal(escalation.unlockCount + 1)} unlock in
+                    the last{" "}
+                    {formatEscalationWindow(
+                      blockedSite.escalation?.windowMinutes ?? 0
+                    )}{" "}
+                    — difficulty {formatMultiplier(escalation.multiplier)}
+                  </span>
+                </div>
+              )}
+
               <div className="flex items-center gap-2 mb-4 pb-3 border-b border-border/30">
                 <div className="text-primary">{challenge.icon}</div>
                 <span className="font-medium">{challenge.label}</span>
+                {steps.length > 1 && (
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    Step {stepIndex + 1} of {steps.length}
+                  </span>
+                )}
               </div>
 
-              {challenge.render({
-                settings: challengeSettings,
-                onComplete: handleChallengeComplete,
-              })}
+              {steps.length > 1 && (
+                <div className="flex gap-1 mb-4">
+                  {steps.map((_, i) => (
+                    <div
+                      key={i}
+                      className={`h-1 flex-1 rounded-full ${
+                        i < stepIndex || (i === stepIndex && challengeComplete)
+                          ? "bg-primary"
+                          : i === stepIndex
+                            ? "bg-primary/40"
+                            : "bg-muted/40"
+                      }`}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {/* Keyed so consecutive steps of the same type start fresh */}
+              <div key={stepIndex}>
+                {challenge.render({
+                  settings: challengeSettings,
+                  onComplete: handleChallengeComplete,
+                })}
+              </div>
             </div>
-          )}
+          ) : null}
 
           {challengeComplete && (
             <Button
@@ -288,7 +449,7 @@ export default function BlockedPage() {
             </Button>
           )}
 
-          {blockedSite.autoRelockAfter && !alreadyUnlocked && (
+          {blockedSite.autoRelockAfter && !alreadyUnlocked && !budget && (
             <p className="text-xs text-center text-muted-foreground">
               Access will expire after {blockedSite.autoRelockAfter} minute
               {blockedSite.autoRelockAfter > 1 ? "s" : ""}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { IconCheck } from "@tabler/icons-react";
+import { CHALLENGES, resolveChallengeSettings } from "@/components/challenges";
+import { EXTEND_CHALLENGE } from "@/lib/relock";
+
+/**
+ * Framed by the relock warning overlay, so it only shows the challenge
+ */
+export default function ExtendPage() {
+  const siteId = new URLSearchParams(window.location.search).get("siteId");
+  const [status, setStatus] = useState<"challenge" | "extending" | "done">(
+    "challenge"
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const challenge = CHALLENGES[EXTEND_CHALLENGE.unlockMethod];
+  const challengeSettings = resolveChallengeSettings(
+    EXTEND_CHALLENGE.unlockMethod,
+    EXTEND_CHALLENGE.challengeSettings
+  ) as typeof challenge extends {
+    render: (props: infer P extends { settings: any }) => any;
+  }
+    ? P["settings"]
+    : never;
+
+  const handleComplete = async () => {
+    if (!siteId) return;
+    setStatus("extending");
+
+    const result = await browser.runtime.sendMessage({
+      type: "EXTEND_UNLOCK",
+      siteId,
+    });
+    if (result?.success) {
+      setStatus("done");
+    } else {
+      setError(result?.error ?? "Could not extend access");
+      setStatus("challenge");
+    }
+  };
+
+  if (!siteId) {
+    return (
+      <p className="p-4 text-sm text-destructive">
+        No site to extend access to
+      </p>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-4 space-y-3">
+      {status === "done" ? (
+        <p className="flex items-center gap-2 text-sm">
+          <IconCheck className="size-4 text-green-500" />
+          Access extended
+        </p>
+      ) : (
+        <>
+          <p className="text-sm font-medium">{challenge.label}</p>
+          {challenge.render({
+            settings: challengeSettings,
+            onComplete: handleComplete,
+          })}
+          {status === "extending" && (
+            <p className="text-xs text-muted-foreground">Extending...</p>
+          )}
+        </>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
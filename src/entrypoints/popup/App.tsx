@@ -1,26 +1,102 @@
-import { useState, useEffect, useCallback, useMemo, memo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef, memo } from "react";
 import {
   getBlockedSites,
-  updateBlockedSite,
   getStats,
   getSettings,
+  getUnlockReasons,
+  defaultSettings,
+  getRejectedPatterns,
+  getPauses,
+  getLockdown,
+  findDecidingRule,
   type BlockedSite,
   type SiteStats,
   type Settings,
+  type UnlockReason,
   type UnlockMethod,
+  type Lockdown,
   type PatternRule,
+  type PatternKind,
+  type ChallengeStep,
+  type Schedule,
+  type SiteBudget,
+  type EscalationPolicy,
+  type RejectedPattern,
+  type PresetRef,
+  type PauseEntry,
+  isSiteActive,
 } from "@/lib/storage";
-import { DEFAULT_AUTO_RELOCK } from "@/lib/consts";
+import { DEFAULT_BUDGET } from "@/lib/budget";
+import {
+  STATS_RANGES,
+  STATS_RETENTION_OPTIONS,
+  compareWeeks,
+  formatDuration,
+  getDailySeries,
+  sumDailySeries,
+} from "@/lib/stats";
+import {
+  createBackup,
+  downloadBackup,
+  findImportMatch,
+  parseBackup,
+  type Backup,
+  type ImportMode,
+} from "@/lib/backup";
+import { PATTERN_KINDS, validatePattern } from "@/lib/patterns";
+import {
+  PRESETS,
+  applyPresetUpdate,
+  createPresetRef,
+  getPresetUpdate,
+  type Preset,
+} from "@/lib/presets";
+import {
+  PAUSE_DURATIONS,
+  countPausesToday,
+  getActivePause,
+  getPauseEnd,
+} from "@/lib/pause";
+import { RELOCK_EXTEND_OPTIONS, RELOCK_WARNING_OPTIONS } from "@/lib/relock";
+import {
+  LOCKDOWN_DURATIONS,
+  LOCKDOWN_END_CHALLENGES,
+  LOCKDOWN_END_DELAY_MS,
+  getActiveLockdown,
+  getLockdownEndAllowedAt,
+} from "@/lib/lockdown";
+import { DEFAULT_ESCALATION, formatMultiplier } from "@/lib/escalation";
+import {
+  DEFAULT_AUTO_RELOCK,
+  POPUP_VIEW_KEY,
+  STORAGE_KEYS,
+} from "@/lib/consts";
+import {
+  DAY_LABELS,
+  DEFAULT_SCHEDULE,
+  WEEK_ORDER,
+  formatSchedule,
+} from "@/lib/schedule";
 import {
   CHALLENGES,
   getDefaultChallengeSettings,
-  type ChallengeSettingsMap,
+  resolveChallengeSettings,
+  summarizeChallengeSettings,
+  type ChallengeResult,
 } from "@/components/challenges";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DailyBarChart, TrendLine } from "@/components/charts";
 import {
   IconPlus,
   IconTrash,
@@ -35,52 +111,391 @@ import {
   IconX,
   IconWorld,
   IconClockHour5Filled,
+  IconCalendarTime,
+  IconHourglass,
+  IconLock,
+  IconArrowUp,
+  IconArrowDown,
+  IconTrendingUp,
+  IconFileExport,
+  IconFileImport,
+  IconAlertTriangle,
+  IconStack2,
+  IconShieldLock,
 } from "@tabler/icons-react";
 
-type View = "main" | "add" | "edit" | "stats" | "settings";
+type View =
+  "main" | "add" | "edit" | "stats" | "settings" | "pause" | "lockdown";
+
+const IMPORT_MODES: { mode: ImportMode; label: string }[] = [
+  { mode: "id", label: "Merge by ID" },
+  { mode: "name", label: "Merge by Name" },
+  { mode: "replace", label: "Replace All" },
+];
+
+const PATTERN_KIND_INFO: Record<
+  PatternKind,
+  { label: string; placeholder: string }
+> = {
+  domain: { label: "Domain", placeholder: "example.com" },
+  wildcard: { label: "Wildcard", placeholder: "*.example.com" },
+  path: { label: "Path", placeholder: "example.com/path" },
+  query: { label: "Query", placeholder: "example.com/watch?list&!t" },
+  regex: { label: "Regex", placeholder: "^https://example\\.com/.*" },
+};
 
 const PatternRuleItem = memo(function PatternRuleItem({
   rule,
   onUpdate,
   onDelete,
   canDelete,
+  rejection,
+  tested,
 }: {
   rule: PatternRule;
   onUpdate: (updates: Partial<PatternRule>) => void;
   onDelete: () => void;
   canDelete: boolean;
+  rejection?: string; // why the browser won't enforce the saved pattern
+  tested?: boolean; // decides the pattern tester's verdict
+}) {
+  const error = rule.pattern.trim()
+    ? validatePattern(rule.pattern, rule.kind)
+    : null;
+
+  return (
+    <div
+      className={`space-y-1 rounded-lg ${
+        tested
+          ? rule.allow
+            ? "ring-1 ring-green-500"
+            : "ring-1 ring-destructive"
+          : ""
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          onClick={() => onUpdate({ allow: !rule.allow })}
+          className={
+            rule.allow
+              ? "text-green-500 hover:text-green-400"
+              : "text-destructive hover:text-destructive/80"
+          }
+        >
+          {rule.allow ? (
+            <IconCheck className="size-4" />
+          ) : (
+            <IconX className="size-4" />
+          )}
+        </Button>
+        <Input
+          value={rule.pattern}
+          onChange={(e) => onUpdate({ pattern: e.target.value })}
+          placeholder={PATTERN_KIND_INFO[rule.kind].placeholder}
+          className="flex-1 font-mono text-sm"
+          aria-invalid={!!(error || rejection)}
+          title={rejection}
+        />
+        <Select
+          value={rule.kind}
+          onValueChange={(kind) => onUpdate({ kind: kind as PatternKind })}
+        >
+          <SelectTrigger size="sm" className="w-24 shrink-0">
+            <SelectValue>
+              {(kind: PatternKind) => PATTERN_KIND_INFO[kind].label}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {PATTERN_KINDS.map((kind) => (
+              <SelectItem key={kind} value={kind}>
+                {PATTERN_KIND_INFO[kind].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canDelete && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={onDelete}
+            className="text-muted-foreground hover:text-destructive"
+          >
+            <IconTrash className="size-4" />
+          </Button>
+        )}
+      </div>
+      {error && <p className="pl-9 text-xs text-destructive">{error}</p>}
+    </div>
+  );
+});
+
+interface OpenTab {
+  id: number;
+  title: string;
+  url: string;
+}
+
+// Lets "reddit.com/r/foo" be tested without typing the scheme
+function normalizeTestUrl(value: string): string {
+  const trimmed = value.trim();
+  return /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+const PatternTester = memo(function PatternTester({
+  url,
+  onUrlChange,
+  decidingRule,
+  blockedTabs,
+}: {
+  url: string;
+  onUrlChange: (url: string) => void;
+  decidingRule: PatternRule | null;
+  blockedTabs: OpenTab[]; // open tabs the draft rules would block
+}) {
+  return (
+    <div className="space-y-2 rounded-lg border p-2">
+      <Label
+        htmlFor="test-url"
+        className="text-xs font-normal text-muted-foreground"
+      >
+        Test a URL
+      </Label>
+      <Input
+        id="test-url"
+        value={url}
+        onChange={(e) => onUrlChange(e.target.value)}
+        placeholder="https://example.com/page"
+        className="font-mono text-sm"
+      />
+      {url.trim() && (
+        <p className="flex items-center gap-1 text-xs">
+          {decidingRule?.allow === false ? (
+            <>
+              <IconX className="size-3 shrink-0 text-destructive" />
+              <span>
+                Blocked by{" "}
+                <span className="font-mono">{decidingRule.pattern}</span>
+              </span>
+            </>
+          ) : decidingRule ? (
+            <>
+              <IconCheck className="size-3 shrink-0 text-green-500" />
+              <span>
+                Allowed by{" "}
+                <span className="font-mono">{decidingRule.pattern}</span>
+              </span>
+            </>
+          ) : (
+            <>
+              <IconCheck className="size-3 shrink-0 text-muted-foreground" />
+              <span className="text-muted-foreground">
+                No pattern matches, not blocked
+              </span>
+            </>
+          )}
+        </p>
+      )}
+      {blockedTabs.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            Would block {blockedTabs.length} open{" "}
+            {blockedTabs.length === 1 ? "tab" : "tabs"}
+          </p>
+          {blockedTabs.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              onClick={() => onUrlChange(tab.url)}
+              title={tab.url}
+              className="block w-full truncate rounded px-1 text-left text-xs hover:bg-muted"
+            >
+              {tab.title || tab.url}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+const ScheduleEditor = memo(function ScheduleEditor({
+  schedule,
+  onChange,
+}: {
+  schedule: Schedule;
+  onChange: (schedule: Schedule) => void;
 }) {
+  const toggleDay = (day: number) => {
+    const days = schedule.days.includes(day)
+      ? schedule.days.filter((d) => d !== day)
+      : [...schedule.days, day];
+    onChange({ ...schedule, days });
+  };
+
+  const updateWindow = (
+    index: number,
+    updates: { start?: string; end?: string }
+  ) => {
+    onChange({
+      ...schedule,
+      windows: schedule.windows.map((w, i) =>
+        i === index ? { ...w, ...updates } : w
+      ),
+    });
+  };
+
   return (
-    <div className="flex items-center gap-2">
+    <div className="space-y-2">
+      <div className="grid grid-cols-7 gap-1">
+        {WEEK_ORDER.map((day) => (
+          <Button
+            key={day}
+            type="button"
+            variant={schedule.days.includes(day) ? "default" : "outline"}
+            size="xs"
+            onClick={() => toggleDay(day)}
+          >
+            {DAY_LABELS[day]}
+          </Button>
+        ))}
+      </div>
+      {schedule.windows.map((w, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            type="time"
+            value={w.start}
+            onChange={(e) => updateWindow(index, { start: e.target.value })}
+            className="flex-1 font-mono text-sm"
+          />
+          <span className="text-muted-foreground text-sm">–</span>
+          <Input
+            type="time"
+            value={w.end}
+            onChange={(e) => updateWindow(index, { end: e.target.value })}
+            className="flex-1 font-mono text-sm"
+          />
+          {schedule.windows.length > 1 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon-sm"
+              onClick={() =>
+                onChange({
+                  ...schedule,
+                  windows: schedule.windows.filter((_, i) => i !== index),
+                })
+              }
+              className="text-muted-foreground hover:text-destructive"
+            >
+              <IconTrash className="size-4" />
+            </Button>
+          )}
+        </div>
+      ))}
       <Button
         type="button"
         variant="ghost"
-        size="icon-sm"
-        onClick={() => onUpdate({ allow: !rule.allow })}
-        className={
-          rule.allow
-            ? "text-green-500 hover:text-green-400"
-            : "text-destructive hover:text-destructive/80"
+        size="sm"
+        onClick={() =>
+          onChange({
+            ...schedule,
+            windows: [...schedule.windows, { start: "18:00", end: "22:00" }],
+          })
         }
+        className="w-full"
       >
-        {rule.allow ? (
-          <IconCheck className="size-4" />
-        ) : (
-          <IconX className="size-4" />
+        <IconPlus className="size-4" />
+        Add Time Window
+      </Button>
+    </div>
+  );
+});
+
+const ChallengeStepItem = memo(function ChallengeStepItem({
+  step,
+  index,
+  selected,
+  onSelect,
+  onMove,
+  onDelete,
+  canMoveUp,
+  canMoveDown,
+  canDelete,
+}: {
+  step: ChallengeStep;
+  index: number;
+  selected: boolean;
+  onSelect: (index: number) => void;
+  onMove: (index: number, offset: number) => void;
+  onDelete: (index: number) => void;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  canDelete: boolean;
+}) {
+  const challenge = CHALLENGES[step.unlockMethod];
+  const summary = summarizeChallengeSettings(
+    step.unlockMethod,
+    step.challengeSettings
+  );
+
+  return (
+    <div
+      onClick={() => onSelect(index)}
+      className={`flex items-center gap-2 p-2 rounded-lg cursor-pointer transition-all ${
+        selected ? "bg-primary/15" : "bg-muted/30 hover:bg-muted/50"
+      }`}
+    >
+      <span className="text-xs text-muted-foreground w-4 text-center">
+        {index + 1}
+      </span>
+      <div className={selected ? "text-primary" : "text-muted-foreground"}>
+        {challenge.icon}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="font-medium text-sm truncate">{challenge.label}</div>
+        {summary && (
+          <div className="text-xs text-muted-foreground truncate">
+            {summary}
+          </div>
         )}
+      </div>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon-sm"
+        disabled={!canMoveUp}
+        onClick={(e) => {
+          e.stopPropagation();
+          onMove(index, -1);
+        }}
+      >
+        <IconArrowUp className="size-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon-sm"
+        disabled={!canMoveDown}
+        onClick={(e) => {
+          e.stopPropagation();
+          onMove(index, 1);
+        }}
+      >
+        <IconArrowDown className="size-4" />
       </Button>
-      <Input
-        value={rule.pattern}
-        onChange={(e) => onUpdate({ pattern: e.target.value })}
-        placeholder="domain.com or path"
-        className="flex-1 font-mono text-sm"
-      />
       {canDelete && (
         <Button
           type="button"
           variant="ghost"
           size="icon-sm"
-          onClick={onDelete}
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete(index);
+          }}
           className="text-muted-foreground hover:text-destructive"
         >
           <IconTrash className="size-4" />
@@ -90,32 +505,104 @@ const PatternRuleItem = memo(function PatternRuleItem({
   );
 });
 
+const ChallengeOptionsEditor = memo(function ChallengeOptionsEditor({
+  step,
+  onChange,
+  idPrefix = "option",
+}: {
+  step: ChallengeStep;
+  onChange: (challengeSettings: ChallengeStep["challengeSettings"]) => void;
+  idPrefix?: string;
+}) {
+  const challenge = CHALLENGES[step.unlockMethod];
+  const optionEntries = Object.entries(challenge.options);
+  if (optionEntries.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <Label>Challenge Options</Label>
+      <div
+        className={`grid gap-3 ${optionEntries.length > 1 ? "grid-cols-2" : "grid-cols-1"}`}
+      >
+        {optionEntries.map(([key, opt]) => (
+          <div key={key} className="space-y-1">
+            <Label
+              htmlFor={`${idPrefix}-${key}`}
+              className="text-xs font-normal text-muted-foreground"
+            >
+              {(opt as { label: string }).label}
+            </Label>
+            <Input
+              id={`${idPrefix}-${key}`}
+              type={
+                typeof (opt as { default: unknown }).default === "number"
+                  ? "number"
+                  : "text"
+              }
+              min={
+                typeof (opt as { default: unknown }).default === "number"
+                  ? "1"
+                  : undefined
+              }
+              value={String(
+                step.challengeSettings[
+                  key as keyof typeof step.challengeSettings
+                ] ?? (opt as { default: unknown }).default
+              )}
+              onChange={(e) => {
+                const value =
+                  typeof (opt as { default: unknown }).default === "number"
+                    ? parseInt(e.target.value) || 0
+                    : e.target.value;
+                onChange({ ...step.challengeSettings, [key]: value });
+              }}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
 const SiteItem = memo(function SiteItem({
   site,
+  rejected,
   onToggle,
   onEdit,
   onDelete,
+  onUpdatePreset,
 }: {
   site: BlockedSite;
+  rejected: RejectedPattern[] | undefined;
   onToggle: (id: string, enabled: boolean) => void;
   onEdit: (site: BlockedSite) => void;
   onDelete: (id: string) => void;
+  onUpdatePreset: (site: BlockedSite, preset: Preset) => void;
 }) {
+  const presetUpdate = getPresetUpdate(site);
   const blockRules = site.rules.filter((r) => !r.allow);
   const allowRules = site.rules.filter((r) => r.allow);
-  const challenge = CHALLENGES[site.unlockMethod];
+  const rejectedPatterns = useMemo(
+    () => new Map(rejected?.map((r) => [r.pattern, r.reason])),
+    [rejected]
+  );
+  const challengeLabel =
+    site.challenges.length === 1
+      ? CHALLENGES[site.challenges[0].unlockMethod].label
+      : `${site.challenges.length} Steps`;
 
   const settingsSummary = useMemo(() => {
-    const settings = site.challengeSettings;
-    const parts: string[] = [];
-    for (const [key, opt] of Object.entries(challenge.options)) {
-      const value = settings[key as keyof typeof settings];
-      if (value !== undefined) {
-        parts.push(`${value}${key === "duration" ? "s" : ""}`);
-      }
+    if (site.challenges.length === 1) {
+      const [step] = site.challenges;
+      return summarizeChallengeSettings(
+        step.unlockMethod,
+        step.challengeSettings
+      );
     }
-    return parts.length > 0 ? parts.join(", ") : null;
-  }, [site.challengeSettings, challenge.options]);
+    return site.challenges
+      .map((step) => CHALLENGES[step.unlockMethod].label)
+      .join(" → ");
+  }, [site.challenges]);
 
   return (
     <div
@@ -130,7 +617,7 @@ const SiteItem = memo(function SiteItem({
             variant={site.enabled ? "default" : "secondary"}
             className="text-xs shrink-0"
           >
-            {challenge.label}
+            {site.budget ? "Daily Budget" : challengeLabel}
           </Badge>
         </div>
         <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -166,6 +653,12 @@ const SiteItem = memo(function SiteItem({
             <code className="text-muted-foreground truncate">
               {rule.pattern}
             </code>
+            {rejectedPatterns.has(rule.pattern) && (
+              <IconAlertTriangle
+                className="size-3 text-destructive shrink-0"
+                title={rejectedPatterns.get(rule.pattern)}
+              />
+            )}
           </div>
         ))}
         {allowRules.map((rule, i) => (
@@ -174,19 +667,126 @@ const SiteItem = memo(function SiteItem({
             <code className="text-muted-foreground truncate">
               {rule.pattern}
             </code>
+            {rejectedPatterns.has(rule.pattern) && (
+              <IconAlertTriangle
+                className="size-3 text-destructive shrink-0"
+                title={rejectedPatterns.get(rule.pattern)}
+              />
+            )}
           </div>
         ))}
       </div>
 
+      {rejectedPatterns.size > 0 && (
+        <div className="flex items-center gap-1 mt-1 text-xs text-destructive">
+          <IconAlertTriangle className="size-3 shrink-0" />
+          <span>
+            {rejectedPatterns.size} pattern
+            {rejectedPatterns.size === 1 ? "" : "s"} can't be enforced by this
+            browser
+          </span>
+        </div>
+      )}
+
       <div className="flex items-center gap-3 mt-2 text-xs text-muted-foreground">
-        {settingsSummary && <span>{settingsSummary} to unlock</span>}
-        {site.autoRelockAfter && (
+        {site.budget ? (
+          <span className="flex items-center gap-1">
+            <IconHourglass className="size-3" />
+            {site.budget.minutes}m/day, resets {site.budget.resetTime}
+          </span>
+        ) : (
+          settingsSummary && <span>{settingsSummary} to unlock</span>
+        )}
+        {site.escalation && !site.budget && (
+          <span className="flex items-center gap-1">
+            <IconTrendingUp className="size-3" />
+            {formatMultiplier(site.escalation.factor)}/unlock
+          </span>
+        )}
+        {site.autoRelockAfter && !site.budget && (
           <span className="flex items-center gap-1">
             <IconRefresh className="size-3" />
             {site.autoRelockAfter}m relock
           </span>
         )}
       </div>
+
+      {site.schedule && (
+        <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+          <IconCalendarTime className="size-3 shrink-0" />
+          <span className="truncate">{formatSchedule(site.schedule)}</span>
+          {site.enabled && !isSiteActive(site) && (
+            <Badge variant="secondary" className="text-xs shrink-0">
+              Off schedule
+            </Badge>
+          )}
+        </div>
+      )}
+
+      {presetUpdate && (
+        <div className="flex items-center justify-between gap-2 mt-2 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1 min-w-0">
+            <IconStack2 className="size-3 shrink-0" />
+            <span className="truncate">
+              {presetUpdate.name} preset has new patterns
+            </span>
+          </span>
+          <Button
+            variant="outline"
+            size="xs"
+            onClick={() => onUpdatePreset(site, presetUpdate)}
+            className="shrink-0"
+          >
+            Update
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+function formatWeekChange(change: number | null): string {
+  if (change === null) return "no data for last week";
+  const percent = Math.round(Math.abs(change) * 100);
+  if (percent === 0) return "same as last week";
+  return `${change < 0 ? "down" : "up"} ${percent}% from last week`;
+}
+
+const StatsOverview = memo(function StatsOverview({
+  stats,
+  range,
+}: {
+  stats: SiteStats[];
+  range: number;
+}) {
+  const trend = useMemo(
+    () =>
+      sumDailySeries(
+        stats.map((s) => getDailySeries(s.daily, range)),
+        range
+      ),
+    [stats, range]
+  );
+  const weeks = useMemo(
+    () =>
+      compareWeeks(
+        sumDailySeries(
+          stats.map((s) => getDailySeries(s.daily, 14)),
+          14
+        )
+      ),
+    [stats]
+  );
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Blocked Visits</span>
+        <span className="text-xs text-muted-foreground">
+          {weeks.thisWeek} this week, {formatWeekChange(weeks.change)}
+        </span>
+      </div>
+      <TrendLine series={trend} />
     </div>
   );
 });
@@ -194,21 +794,31 @@ const SiteItem = memo(function SiteItem({
 const StatItem = memo(function StatItem({
   stat,
   site,
+  range,
 }: {
   stat: SiteStats;
   site: BlockedSite | undefined;
+  range: number;
 }) {
   const passRate =
     stat.visitCount > 0
       ? Math.round((stat.passedCount / stat.visitCount) * 100)
       : 0;
+  const series = useMemo(
+    () => getDailySeries(stat.daily, range),
+    [stat.daily, range]
+  );
+  const weeks = useMemo(() => compareWeeks(stat.daily), [stat.daily]);
 
   return (
     <div className="p-3 rounded-lg bg-muted/30">
       <div className="flex items-center justify-between mb-2">
         <span className="text-sm font-medium">{site?.name || "Unknown"}</span>
+        <span className="text-xs text-muted-foreground">
+          {formatWeekChange(weeks.change)}
+        </span>
       </div>
-      <div className="grid grid-cols-3 gap-2 text-center">
+      <div className="grid grid-cols-3 gap-2 text-center mb-2">
         <div>
           <div className="text-lg font-bold text-primary">
             {stat.visitCount}
@@ -221,56 +831,175 @@ const StatItem = memo(function StatItem({
         </div>
         <div>
           <div className="text-lg font-bold text-chart-3">
-            {(() => {
-              const ms = stat.timeSpentMs;
-              const seconds = Math.floor(ms / 1000);
-              const minutes = Math.floor(seconds / 60);
-              const hours = Math.floor(minutes / 60);
-
-              if (hours > 0) {
-                return `${hours}h ${minutes % 60}m`;
-              }
-              if (minutes > 0) {
-                return `${minutes}m ${seconds % 60}s`;
-              }
-              return `${seconds}s`;
-            })()}
+            {formatDuration(stat.timeSpentMs)}
           </div>
           <div className="text-xs text-muted-foreground">Time Wasted</div>
         </div>
       </div>
+      <DailyBarChart series={series} />
+    </div>
+  );
+});
+
+const ReasonItem = memo(function ReasonItem({
+  reason,
+  site,
+}: {
+  reason: UnlockReason;
+  site: BlockedSite | undefined;
+}) {
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">
+          {site?.name || "Unknown"}
+        </span>
+        <span>
+          {new Date(reason.timestamp).toLocaleString([], {
+            dateStyle: "short",
+            timeStyle: "short",
+          })}
+        </span>
+      </div>
+      <p className="text-sm break-words">{reason.reason}</p>
+    </div>
+  );
+});
+
+const PauseItem = memo(function PauseItem({ pause }: { pause: PauseEntry }) {
+  return (
+    <div className="p-3 rounded-lg bg-muted/30 space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">
+          {formatDuration(getPauseEnd(pause) - pause.startedAt)}
+          {pause.endedAt && " (resumed early)"}
+        </span>
+        <span>
+          {new Date(pause.startedAt).toLocaleString([], {
+            dateStyle: "short",
+            timeStyle: "short",
+          })}
+        </span>
+      </div>
+      {pause.reason && <p className="text-sm break-words">{pause.reason}</p>}
+    </div>
+  );
+});
+
+const StepChallenge = memo(function StepChallenge({
+  step,
+  onComplete,
+}: {
+  step: ChallengeStep;
+  onComplete: (result?: ChallengeResult) => void;
+}) {
+  const challenge = CHALLENGES[step.unlockMethod];
+  const challengeSettings = resolveChallengeSettings(
+    step.unlockMethod,
+    step.challengeSettings
+  ) as typeof challenge extends {
+    render: (props: infer P extends { settings: any }) => any;
+  }
+    ? P["settings"]
+    : never;
+
+  return (
+    <div className="space-y-2">
+      <Label>{challenge.label}</Label>
+      {challenge.render({ settings: challengeSettings, onComplete })}
     </div>
   );
 });
 
+function formatLockdownEnd(until: number): string {
+  return new Date(until).toLocaleString([], {
+    weekday: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatPauseDuration(minutes: number): string {
+  return minutes < 60 ? `${minutes}m` : `${minutes / 60}h`;
+}
+
+function createRule(pattern = ""): PatternRule {
+  return { pattern, kind: "domain", allow: false };
+}
+
+function createChallengeStep(method: UnlockMethod): ChallengeStep {
+  return {
+    unlockMethod: method,
+    challengeSettings: getDefaultChallengeSettings(method),
+  };
+}
+
 export default function App() {
   const [view, setView] = useState<View>("main");
   const [sites, setSites] = useState<BlockedSite[]>([]);
   const [stats, setStats] = useState<SiteStats[]>([]);
-  const [settings, setSettings] = useState<Settings>({ statsEnabled: true });
+  const [reasons, setReasons] = useState<UnlockReason[]>([]);
+  const [statsRange, setStatsRange] = useState(STATS_RANGES[0]);
+  const [rejectedPatterns, setRejectedPatterns] = useState<
+    Record<string, RejectedPattern[]>
+  >({});
+  const [settings, setSettings] = useState<Settings>(defaultSettings);
   const [loading, setLoading] = useState(true);
   const [editingSite, setEditingSite] = useState<BlockedSite | null>(null);
+  const [importPreview, setImportPreview] = useState<Backup | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("id");
+  const [importSettings, setImportSettings] = useState(true);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const [formName, setFormName] = useState("");
-  const [formRules, setFormRules] = useState<PatternRule[]>([
-    { pattern: "", allow: false },
+  const [formRules, setFormRules] = useState<PatternRule[]>([createRule()]);
+  const [formSteps, setFormSteps] = useState<ChallengeStep[]>(() => [
+    createChallengeStep("timer"),
   ]);
-  const [formMethod, setFormMethod] = useState<UnlockMethod>("timer");
-  const [formChallengeSettings, setFormChallengeSettings] = useState<
-    ChallengeSettingsMap[UnlockMethod]
-  >(() => getDefaultChallengeSettings("timer"));
+  const [selectedStep, setSelectedStep] = useState(0);
   const [formAutoRelock, setFormAutoRelock] = useState(
     String(DEFAULT_AUTO_RELOCK)
   );
+  const [formSchedule, setFormSchedule] = useState<Schedule | null>(null);
+  const [formBudget, setFormBudget] = useState<SiteBudget | null>(null);
+  const [formEscalation, setFormEscalation] = useState<EscalationPolicy | null>(
+    null
+  );
+  const [formPreset, setFormPreset] = useState<PresetRef | null>(null);
+  const [testUrl, setTestUrl] = useState("");
+  const [pauses, setPauses] = useState<PauseEntry[]>([]);
+  const [pauseMinutes, setPauseMinutes] = useState(PAUSE_DURATIONS[1]);
+  const [pauseResult, setPauseResult] = useState<ChallengeResult | null>(null);
+  const [pauseError, setPauseError] = useState<string | null>(null);
+  const [openTabs, setOpenTabs] = useState<OpenTab[]>([]);
+  const [lockdown, setLockdown] = useState<Lockdown | null>(null);
+  const [lockdownHours, setLockdownHours] = useState(LOCKDOWN_DURATIONS[1]);
+  const [lockdownStep, setLockdownStep] = useState(0);
+  // Why the background refused the last change
+  const [lockdownError, setLockdownError] = useState<string | null>(null);
 
   const loadData = useCallback(async () => {
-    const [loadedSites, loadedStats, loadedSettings] = await Promise.all([
+    const [
+      loadedSites,
+      loadedStats,
+      loadedSettings,
+      loadedReasons,
+      loadedPauses,
+      loadedLockdown,
+    ] = await Promise.all([
       getBlockedSites(),
       getStats(),
       getSettings(),
+      getUnlockReasons(),
+      getPauses(),
+      getLockdown(),
     ]);
     setSites(loadedSites);
+    setPauses(loadedPauses);
+    setLockdown(loadedLockdown);
     setStats(loadedStats);
+    setReasons(loadedReasons);
     setSettings(loadedSettings);
     setLoading(false);
   }, []);
@@ -279,13 +1008,58 @@ export default function App() {
     loadData();
   }, [loadData]);
 
+  // Rules are validated by the background after each save
+  useEffect(() => {
+    getRejectedPatterns().then(setRejectedPatterns);
+
+    const handleChange = (
+      changes: Record<string, Browser.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (areaName !== "local") return;
+      const change = changes[STORAGE_KEYS.REJECTED_PATTERNS];
+      if (change) {
+        setRejectedPatterns(
+          (change.newValue as Record<string, RejectedPattern[]>) ?? {}
+        );
+      }
+      // Pauses also end from the background when their time runs out
+      const pausesChange = changes[STORAGE_KEYS.PAUSES];
+      if (pausesChange) {
+        setPauses((pausesChange.newValue as PauseEntry[]) ?? []);
+      }
+    };
+    browser.storage.onChanged.addListener(handleChange);
+    return () => browser.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  // Tabs the pattern tester checks the draft rules against
+  useEffect(() => {
+    if (view !== "add" && view !== "edit") return;
+    browser.tabs.query({}).then((tabs) => {
+      setOpenTabs(
+        tabs.flatMap((tab) =>
+          tab.id !== undefined && tab.url?.startsWith("http")
+            ? [{ id: tab.id, title: tab.title ?? "", url: tab.url }]
+            : []
+        )
+      );
+    });
+  }, [view]);
+
   const resetForm = useCallback(() => {
     setFormName("");
-    setFormRules([{ pattern: "", allow: false }]);
-    setFormMethod("timer");
-    setFormChallengeSettings(getDefaultChallengeSettings("timer"));
+    setFormRules([createRule()]);
+    setFormSteps([createChallengeStep("timer")]);
+    setSelectedStep(0);
     setFormAutoRelock(String(DEFAULT_AUTO_RELOCK));
+    setFormSchedule(null);
+    setFormBudget(null);
+    setFormEscalation(null);
+    setFormPreset(null);
+    setTestUrl("");
     setEditingSite(null);
+    setLockdownError(null);
   }, []);
 
   const handleAddCurrentSite = useCallback(async () => {
@@ -296,9 +1070,9 @@ export default function App() {
       if (result.domain) {
         setFormRules((rules) => {
           if (rules.length === 1 && !rules[0].pattern) {
-            return [{ pattern: result.domain, allow: false }];
+            return [createRule(result.domain)];
           }
-          return [...rules, { pattern: result.domain, allow: false }];
+          return [...rules, createRule(result.domain)];
         });
         if (!formName) {
           setFormName(result.domain);
@@ -316,18 +1090,29 @@ export default function App() {
     const siteData = {
       name: formName.trim(),
       rules: validRules.map((r) => ({ ...r, pattern: r.pattern.trim() })),
-      unlockMethod: formMethod,
-      challengeSettings: formChallengeSettings,
+      challenges: formSteps,
       autoRelockAfter: formAutoRelock ? parseInt(formAutoRelock) : null,
+      schedule: formSchedule,
+      budget: formBudget,
+      escalation: formBudget ? null : formEscalation,
       enabled: true,
     };
 
     if (editingSite) {
-      await updateBlockedSite(editingSite.id, siteData);
+      const result = await browser.runtime.sendMessage({
+        type: "UPDATE_SITE",
+        siteId: editingSite.id,
+        updates: siteData,
+      });
+      if (!result?.success) {
+        setLockdownError(result?.error ?? "Could not save changes");
+        return;
+      }
     } else {
       const sites = await getBlockedSites();
       const newSite = {
         ...siteData,
+        preset: formPreset,
         id: Math.random().toString(36).substring(2, 10),
         createdAt: Date.now(),
       };
@@ -341,31 +1126,69 @@ export default function App() {
   }, [
     formName,
     formRules,
-    formMethod,
-    formChallengeSettings,
+    formSteps,
     formAutoRelock,
+    formSchedule,
+    formBudget,
+    formEscalation,
+    formPreset,
     editingSite,
     resetForm,
     loadData,
   ]);
 
+  const handleSelectPreset = useCallback((preset: Preset) => {
+    setFormName(preset.name);
+    setFormRules(preset.rules.map((rule) => ({ ...rule })));
+    setFormPreset(createPresetRef(preset));
+  }, []);
+
+  const handleUpdatePreset = useCallback(
+    async (site: BlockedSite, preset: Preset) => {
+      const result = await browser.runtime.sendMessage({
+        type: "UPDATE_SITE",
+        siteId: site.id,
+        updates: applyPresetUpdate(site, preset),
+      });
+      setLockdownError(result?.success ? null : result?.error);
+      loadData();
+    },
+    [loadData]
+  );
+
   const handleEditSite = useCallback((site: BlockedSite) => {
     setEditingSite(site);
     setFormName(site.name);
-    setFormRules(
-      site.rules.length > 0 ? site.rules : [{ pattern: "", allow: false }]
-    );
-    setFormMethod(site.unlockMethod);
-    setFormChallengeSettings(
-      site.challengeSettings ?? getDefaultChallengeSettings(site.unlockMethod)
+    setFormRules(site.rules.length > 0 ? site.rules : [createRule()]);
+    setFormSteps(
+      site.challenges.length > 0
+        ? site.challenges.map((step) => ({
+            ...step,
+            challengeSettings: resolveChallengeSettings(
+              step.unlockMethod,
+              step.challengeSettings
+            ),
+          }))
+        : [createChallengeStep("timer")]
     );
+    setSelectedStep(0);
     setFormAutoRelock(site.autoRelockAfter ? String(site.autoRelockAfter) : "");
+    setFormSchedule(site.schedule ?? null);
+    setFormBudget(site.budget ?? null);
+    setFormEscalation(site.escalation ?? null);
     setView("edit");
   }, []);
 
+  // Changes that could weaken blocking go through the background, which
+  // refuses them during a lockdown
   const handleToggleSite = useCallback(
     async (id: string, enabled: boolean) => {
-      await updateBlockedSite(id, { enabled });
+      const result = await browser.runtime.sendMessage({
+        type: "UPDATE_SITE",
+        siteId: id,
+        updates: { enabled },
+      });
+      setLockdownError(result?.success ? null : result?.error);
       loadData();
     },
     [loadData]
@@ -373,55 +1196,284 @@ export default function App() {
 
   const handleDeleteSite = useCallback(
     async (id: string) => {
-      const sites = await getBlockedSites();
-      await browser.storage.local.set({
-        ["blockedSites"]: sites.filter((s) => s.id !== id),
+      const result = await browser.runtime.sendMessage({
+        type: "DELETE_SITE",
+        siteId: id,
       });
+      setLockdownError(result?.success ? null : result?.error);
       loadData();
     },
     [loadData]
   );
 
-  const handleToggleStats = useCallback(async () => {
-    const newSettings = { ...settings, statsEnabled: !settings.statsEnabled };
-    await browser.storage.local.set({ ["settings"]: newSettings });
-    setSettings(newSettings);
-  }, [settings]);
-
-  const handleClearStats = useCallback(async () => {
-    await browser.storage.local.set({ ["stats"]: [] });
-    loadData();
-  }, [loadData]);
-
-  const handleAddRule = useCallback(() => {
-    setFormRules((rules) => [...rules, { pattern: "", allow: false }]);
-  }, []);
+  const handleRetentionChange = useCallback(
+    async (days: number) => {
+      const newSettings = { ...settings, statsRetentionDays: days };
+      await browser.storage.local.set({ ["settings"]: newSettings });
+      setSettings(newSettings);
+    },
+    [settings]
+  );
 
-  const handleUpdateRule = useCallback(
-    (index: number, updates: Partial<PatternRule>) => {
-      setFormRules((rules) =>
-        rules.map((r, i) => (i === index ? { ...r, ...updates } : r))
-      );
+  const handleSettingsChange = useCallback(
+    async (updates: Partial<Settings>) => {
+      const result = await browser.runtime.sendMessage({
+        type: "UPDATE_SETTINGS",
+        updates,
+      });
+      if (!result?.success) {
+        setLockdownError(result?.error ?? "Could not save settings");
+        return;
+      }
+      setLockdownError(null);
+      setSettings({ ...settings, ...updates });
     },
-    []
+    [settings]
   );
 
-  const handleDeleteRule = useCallback((index: number) => {
-    setFormRules((rules) => rules.filter((_, i) => i !== index));
+  const handleToggleStats = useCallback(() => {
+    handleSettingsChange({ statsEnabled: !settings.statsEnabled });
+  }, [settings, handleSettingsChange]);
+
+  const handleOpenPause = useCallback(() => {
+    setPauseMinutes(PAUSE_DURATIONS[1]);
+    setPauseResult(null);
+    setPauseError(null);
+    setView("pause");
   }, []);
 
-  const handleBackToMain = useCallback(() => {
-    resetForm();
+  // The pause shortcut opens the popup straight on the pause view
+  useEffect(() => {
+    browser.storage.session.get(POPUP_VIEW_KEY).then((result) => {
+      if (result[POPUP_VIEW_KEY] !== "pause") return;
+      browser.storage.session.remove(POPUP_VIEW_KEY);
+      handleOpenPause();
+    });
+  }, [handleOpenPause]);
+
+  const handleStartPause = useCallback(async () => {
+    const result = await browser.runtime.sendMessage({
+      type: "START_PAUSE",
+      minutes: pauseMinutes,
+      reason: pauseResult?.reason,
+    });
+    if (!result?.success) {
+      setPauseError(result?.error ?? "Could not pause blocking");
+      return;
+    }
     setView("main");
-  }, [resetForm]);
+    loadData();
+  }, [pauseMinutes, pauseResult, loadData]);
+
+  const handleEndPause = useCallback(async () => {
+    await browser.runtime.sendMessage({ type: "END_PAUSE" });
+    loadData();
+  }, [loadData]);
+
+  const handleOpenLockdown = useCallback(() => {
+    setLockdownHours(LOCKDOWN_DURATIONS[1]);
+    setLockdownStep(0);
+    setLockdownError(null);
+    setView("lockdown");
+  }, []);
+
+  const handleStartLockdown = useCallback(async () => {
+    const result = await browser.runtime.sendMessage({
+      type: "START_LOCKDOWN",
+      hours: lockdownHours,
+    });
+    if (!result?.success) {
+      setLockdownError(result?.error ?? "Could not start the lockdown");
+      return;
+    }
+    setView("main");
+    loadData();
+  }, [lockdownHours, loadData]);
+
+  const handleRequestLockdownEnd = useCallback(async () => {
+    const result = await browser.runtime.sendMessage({
+      type: "REQUEST_LOCKDOWN_END",
+    });
+    if (!result?.success) {
+      setLockdownError(result?.error ?? "Could not request the end");
+      return;
+    }
+    setLockdownStep(0);
+    loadData();
+  }, [loadData]);
+
+  const handleEndLockdown = useCallback(async () => {
+    const result = await browser.runtime.sendMessage({ type: "END_LOCKDOWN" });
+    if (!result?.success) {
+      setLockdownError(result?.error ?? "Could not end the lockdown");
+      return;
+    }
+    setView("main");
+    loadData();
+  }, [loadData]);
+
+  const handleClearStats = useCallback(async () => {
+    await browser.storage.local.set({
+      [STORAGE_KEYS.STATS]: [],
+      [STORAGE_KEYS.UNLOCK_REASONS]: [],
+    });
+    loadData();
+  }, [loadData]);
+
+  const handleExport = useCallback(async () => {
+    const [currentSites, currentSettings] = await Promise.all([
+      getBlockedSites(),
+      getSettings(),
+    ]);
+    downloadBackup(createBackup(currentSites, currentSettings));
+  }, []);
+
+  const handleImportFile = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+
+      const result = parseBackup(await file.text());
+      if (result.ok) {
+        setImportPreview(result.backup);
+        setImportError(null);
+      } else {
+        setImportPreview(null);
+        setImportError(result.error);
+      }
+    },
+    []
+  );
+
+  const handleConfirmImport = useCallback(async () => {
+    if (!importPreview) return;
+
+    // The background refuses imports that would weaken a lockdown
+    const result = await browser.runtime.sendMessage({
+      type: "IMPORT_BACKUP",
+      sites: importPreview.sites,
+      mode: importMode,
+      settings: importSettings ? importPreview.settings : undefined,
+    });
+    if (!result?.success) {
+      setImportError(result?.error ?? "Could not import the backup");
+      return;
+    }
+
+    setImportPreview(null);
+    loadData();
+  }, [importPreview, importMode, importSettings, loadData]);
+
+  const handleAddRule = useCallback(() => {
+    setFormRules((rules) => [...rules, createRule()]);
+  }, []);
+
+  const handleUpdateRule = useCallback(
+    (index: number, updates: Partial<PatternRule>) => {
+      setFormRules((rules) =>
+        rules.map((r, i) => (i === index ? { ...r, ...updates } : r))
+      );
+    },
+    []
+  );
+
+  const handleDeleteRule = useCallback((index: number) => {
+    setFormRules((rules) => rules.filter((_, i) => i !== index));
+  }, []);
+
+  const handleUpdateStep = useCallback(
+    (index: number, updates: Partial<ChallengeStep>) => {
+      setFormSteps((steps) =>
+        steps.map((step, i) => (i === index ? { ...step, ...updates } : step))
+      );
+    },
+    []
+  );
+
+  const handleAddStep = useCallback(() => {
+    setSelectedStep(formSteps.length);
+    setFormSteps((steps) => [...steps, createChallengeStep("timer")]);
+  }, [formSteps.length]);
+
+  const handleMoveStep = useCallback((index: number, offset: number) => {
+    setFormSteps((steps) => {
+      const target = index + offset;
+      if (target < 0 || target >= steps.length) return steps;
+      const next = [...steps];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setSelectedStep(index + offset);
+  }, []);
+
+  const handleDeleteStep = useCallback((index: number) => {
+    setFormSteps((steps) => steps.filter((_, i) => i !== index));
+    setSelectedStep((selected) =>
+      selected >= index ? Math.max(0, selected - 1) : selected
+    );
+  }, []);
+
+  const handleBackToMain = useCallback(() => {
+    resetForm();
+    setView("main");
+  }, [resetForm]);
+
+  const editRejections = useMemo(() => {
+    const rejected = editingSite ? rejectedPatterns[editingSite.id] : undefined;
+    return new Map(rejected?.map((r) => [r.pattern, r.reason]));
+  }, [editingSite, rejectedPatterns]);
+
+  // Rules as they'd be saved
+  const draftRules = useMemo(
+    () => formRules.map((r) => ({ ...r, pattern: r.pattern.trim() })),
+    [formRules]
+  );
+
+  const testMatch = useMemo(
+    () =>
+      testUrl.trim()
+        ? findDecidingRule(normalizeTestUrl(testUrl), draftRules)
+        : null,
+    [testUrl, draftRules]
+  );
+
+  const blockedTabs = useMemo(
+    () =>
+      openTabs.filter(
+        (tab) => findDecidingRule(tab.url, draftRules)?.rule.allow === false
+      ),
+    [openTabs, draftRules]
+  );
 
   const siteMap = useMemo(() => {
     return new Map(sites.map((s) => [s.id, s]));
   }, [sites]);
 
   const isFormValid = useMemo(() => {
-    return formName.trim() && formRules.some((r) => r.pattern.trim());
-  }, [formName, formRules]);
+    const budgetValid =
+      !formBudget || (formBudget.minutes > 0 && !!formBudget.resetTime);
+    const escalationValid =
+      !formEscalation ||
+      (formEscalation.factor >= 1 &&
+        formEscalation.windowMinutes > 0 &&
+        formEscalation.quietMinutes > 0);
+    const scheduleValid =
+      !formSchedule ||
+      (formSchedule.days.length > 0 &&
+        formSchedule.windows.every((w) => w.start && w.end));
+    const rulesValid = formRules.every(
+      (r) => !r.pattern.trim() || !validatePattern(r.pattern, r.kind)
+    );
+    return (
+      formName.trim() &&
+      formRules.some((r) => r.pattern.trim()) &&
+      rulesValid &&
+      scheduleValid &&
+      budgetValid &&
+      escalationValid
+    );
+  }, [formName, formRules, formSchedule, formBudget, formEscalation]);
 
   if (loading) {
     return (
@@ -432,6 +1484,17 @@ export default function App() {
   }
 
   const isEditing = view === "add" || view === "edit";
+  const activePause = getActivePause(pauses);
+  const activeLockdown = getActiveLockdown(lockdown);
+  const lockdownEndAllowedAt =
+    activeLockdown && getLockdownEndAllowedAt(activeLockdown);
+  const pausesLeft = Math.max(
+    0,
+    settings.maxPausesPerDay - countPausesToday(pauses)
+  );
+  const currentStep =
+    formSteps[Math.min(selectedStep, formSteps.length - 1)] ??
+    createChallengeStep("timer");
 
   return (
     <div className="w-[400px] h-[520px] bg-background text-foreground flex flex-col overflow-hidden dark">
@@ -449,6 +1512,8 @@ export default function App() {
             {view === "edit" && "Edit Block"}
             {view === "stats" && "Statistics"}
             {view === "settings" && "Settings"}
+            {view === "pause" && "Pause Blocking"}
+            {view === "lockdown" && "Lockdown"}
           </h1>
         </div>
         {view === "main" && (
@@ -456,14 +1521,37 @@ export default function App() {
             <Button
               variant="ghost"
               size="icon-sm"
-              onClick={() => setView("stats")}
+              onClick={handleOpenPause}
+              disabled={!!activePause || !!activeLockdown}
+              title="Pause all blocking"
+            >
+              <IconPlayerPause className="size-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={handleOpenLockdown}
+              title="Lock down rule sets"
+            >
+              <IconShieldLock className="size-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => {
+                setLockdownError(null);
+                setView("stats");
+              }}
             >
               <IconChartBar className="size-4" />
             </Button>
             <Button
               variant="ghost"
               size="icon-sm"
-              onClick={() => setView("settings")}
+              onClick={() => {
+                setLockdownError(null);
+                setView("settings");
+              }}
             >
               <IconSettings className="size-4" />
             </Button>
@@ -474,6 +1562,38 @@ export default function App() {
       <div className="flex-1 overflow-y-auto p-4 scrollbar-thin">
         {view === "main" && (
           <div className="space-y-3">
+            {activePause && (
+              <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-amber-500/10 text-xs">
+                <span className="flex items-center gap-1.5">
+                  <IconPlayerPause className="size-4 text-amber-500 shrink-0" />
+                  Blocking paused until{" "}
+                  {new Date(getPauseEnd(activePause)).toLocaleTimeString([], {
+                    timeStyle: "short",
+                  })}
+                </span>
+                <Button variant="outline" size="xs" onClick={handleEndPause}>
+                  Resume
+                </Button>
+              </div>
+            )}
+            {activeLockdown && (
+              <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-primary/10 text-xs">
+                <span className="flex items-center gap-1.5">
+                  <IconShieldLock className="size-4 text-primary shrink-0" />
+                  Locked down until {formatLockdownEnd(activeLockdown.until)}
+                </span>
+                <Button
+                  variant="outline"
+                  size="xs"
+                  onClick={handleOpenLockdown}
+                >
+                  Details
+                </Button>
+              </div>
+            )}
+            {lockdownError && (
+              <p className="text-xs text-destructive">{lockdownError}</p>
+            )}
             {sites.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 <IconClockHour5Filled className="size-12 mx-auto mb-3 opacity-30" />
@@ -487,9 +1607,11 @@ export default function App() {
                 <SiteItem
                   key={site.id}
                   site={site}
+                  rejected={rejectedPatterns[site.id]}
                   onToggle={handleToggleSite}
                   onEdit={handleEditSite}
                   onDelete={handleDeleteSite}
+                  onUpdatePreset={handleUpdatePreset}
                 />
               ))
             )}
@@ -498,6 +1620,28 @@ export default function App() {
 
         {isEditing && (
           <div className="space-y-4">
+            {view === "add" && (
+              <div className="space-y-2">
+                <Label>Start from a Preset</Label>
+                <div className="flex flex-wrap gap-1.5">
+                  {PRESETS.map((preset) => (
+                    <Button
+                      key={preset.id}
+                      type="button"
+                      variant={
+                        formPreset?.id === preset.id ? "default" : "outline"
+                      }
+                      size="xs"
+                      onClick={() => handleSelectPreset(preset)}
+                      title={preset.description}
+                    >
+                      {preset.name}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="name">Name</Label>
               <Input
@@ -530,6 +1674,8 @@ export default function App() {
                     onUpdate={(updates) => handleUpdateRule(index, updates)}
                     onDelete={() => handleDeleteRule(index)}
                     canDelete={formRules.length > 1}
+                    rejection={editRejections.get(rule.pattern)}
+                    tested={testMatch?.index === index}
                   />
                 ))}
               </div>
@@ -549,124 +1695,317 @@ export default function App() {
                 (whitelist). Use *.domain.com for subdomains, domain.com/path
                 for specific paths.
               </p>
+              <PatternTester
+                url={testUrl}
+                onUrlChange={setTestUrl}
+                decidingRule={testMatch?.rule ?? null}
+                blockedTabs={blockedTabs}
+              />
             </div>
 
             <div className="space-y-2">
-              <Label>Unlock Method</Label>
-              <div className="grid gap-2">
-                {(Object.keys(CHALLENGES) as UnlockMethod[]).map((method) => {
-                  const challenge = CHALLENGES[method];
-                  return (
-                    <button
-                      key={method}
-                      type="button"
-                      onClick={() => {
-                        setFormMethod(method);
-                        setFormChallengeSettings(
-                          getDefaultChallengeSettings(method)
-                        );
-                      }}
-                      className={`flex items-center gap-3 p-3 rounded-lg text-left transition-all ${
-                        formMethod === method
-                          ? "bg-primary/15"
-                          : "bg-muted/30 hover:bg-muted/50"
-                      }`}
-                    >
-                      <div
-                        className={`p-2 rounded-md ${
-                          formMethod === method
-                            ? "bg-primary text-primary-foreground"
-                            : "bg-muted/50 text-muted-foreground"
-                        }`}
-                      >
-                        {challenge.icon}
-                      </div>
-                      <div>
-                        <div className="font-medium text-sm">
-                          {challenge.label}
-                        </div>
-                        <div className="text-xs text-muted-foreground">
-                          {challenge.description}
-                        </div>
-                      </div>
-                    </button>
-                  );
-                })}
+              <Label>Access</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  type="button"
+                  variant={formBudget ? "outline" : "default"}
+                  size="sm"
+                  onClick={() => setFormBudget(null)}
+                >
+                  <IconLock className="size-4" />
+                  Challenge
+                </Button>
+                <Button
+                  type="button"
+                  variant={formBudget ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setFormBudget((b) => b ?? DEFAULT_BUDGET)}
+                >
+                  <IconHourglass className="size-4" />
+                  Daily Budget
+                </Button>
               </div>
             </div>
 
-            {(() => {
-              const challenge = CHALLENGES[formMethod];
-              const optionEntries = Object.entries(challenge.options);
-              if (optionEntries.length === 0) return null;
-
-              return (
-                <div className="space-y-3">
-                  <Label>Challenge Options</Label>
-                  <div
-                    className={`grid gap-3 ${optionEntries.length > 1 ? "grid-cols-2" : "grid-cols-1"}`}
+            {formBudget ? (
+              <div className="space-y-2">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label
+                      htmlFor="budget-minutes"
+                      className="text-xs font-normal text-muted-foreground"
+                    >
+                      Minutes per day
+                    </Label>
+                    <Input
+                      id="budget-minutes"
+                      type="number"
+                      min="1"
+                      value={String(formBudget.minutes)}
+                      onChange={(e) =>
+                        setFormBudget({
+                          ...formBudget,
+                          minutes: parseInt(e.target.value) || 0,
+                        })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label
+                      htmlFor="budget-reset"
+                      className="text-xs font-normal text-muted-foreground"
+                    >
+                      Resets at
+                    </Label>
+                    <Input
+                      id="budget-reset"
+                      type="time"
+                      value={formBudget.resetTime}
+                      onChange={(e) =>
+                        setFormBudget({
+                          ...formBudget,
+                          resetTime: e.target.value,
+                        })
+                      }
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Time in a focused tab counts down, then the site is blocked
+                  until the reset
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label>Challenge Steps</Label>
+                  <div className="space-y-1">
+                    {formSteps.map((step, index) => (
+                      <ChallengeStepItem
+                        key={index}
+                        step={step}
+                        index={index}
+                        selected={index === selectedStep}
+                        onSelect={setSelectedStep}
+                        onMove={handleMoveStep}
+                        onDelete={handleDeleteStep}
+                        canMoveUp={index > 0}
+                        canMoveDown={index < formSteps.length - 1}
+                        canDelete={formSteps.length > 1}
+                      />
+                    ))}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleAddStep}
+                    className="w-full"
                   >
-                    {optionEntries.map(([key, opt]) => (
-                      <div key={key} className="space-y-1">
+                    <IconPlus className="size-4" />
+                    Add Step
+                  </Button>
+                  <p className="text-xs text-muted-foreground">
+                    Steps are completed in order. Select a step to change it.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>
+                    {formSteps.length > 1
+                      ? `Step ${selectedStep + 1} Method`
+                      : "Unlock Method"}
+                  </Label>
+                  <div className="grid gap-2">
+                    {(Object.keys(CHALLENGES) as UnlockMethod[]).map(
+                      (method) => {
+                        const challenge = CHALLENGES[method];
+                        return (
+                          <button
+                            key={method}
+                            type="button"
+                            onClick={() =>
+                              handleUpdateStep(
+                                selectedStep,
+                                createChallengeStep(method)
+                              )
+                            }
+                            className={`flex items-center gap-3 p-3 rounded-lg text-left transition-all ${
+                              currentStep.unlockMethod === method
+                                ? "bg-primary/15"
+                                : "bg-muted/30 hover:bg-muted/50"
+                            }`}
+                          >
+                            <div
+                              className={`p-2 rounded-md ${
+                                currentStep.unlockMethod === method
+                                  ? "bg-primary text-primary-foreground"
+                                  : "bg-muted/50 text-muted-foreground"
+                              }`}
+                            >
+                              {challenge.icon}
+                            </div>
+                            <div>
+                              <div className="font-medium text-sm">
+                                {challenge.label}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {challenge.description}
+                              </div>
+                            </div>
+                          </button>
+                        );
+                      }
+                    )}
+                  </div>
+                </div>
+
+                <ChallengeOptionsEditor
+                  step={currentStep}
+                  onChange={(challengeSettings) =>
+                    handleUpdateStep(selectedStep, { challengeSettings })
+                  }
+                />
+
+                <div className="space-y-2">
+                  <Label htmlFor="relock">Auto-relock (minutes)</Label>
+                  <Input
+                    id="relock"
+                    type="number"
+                    min="1"
+                    placeholder="Never"
+                    value={formAutoRelock}
+                    onChange={(e) => setFormAutoRelock(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    How long until the site is blocked again after unlocking
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Escalation</Label>
+                    <Button
+                      type="button"
+                      variant={formEscalation ? "default" : "outline"}
+                      size="xs"
+                      onClick={() =>
+                        setFormEscalation((e) =>
+                          e ? null : DEFAULT_ESCALATION
+                        )
+                      }
+                    >
+                      <IconTrendingUp className="size-3" />
+                      {formEscalation ? "On" : "Off"}
+                    </Button>
+                  </div>
+                  {formEscalation && (
+                    <div className="grid grid-cols-3 gap-3">
+                      <div className="space-y-1">
                         <Label
-                          htmlFor={`option-${key}`}
+                          htmlFor="escalation-factor"
                           className="text-xs font-normal text-muted-foreground"
                         >
-                          {(opt as { label: string }).label}
+                          Factor
                         </Label>
                         <Input
-                          id={`option-${key}`}
-                          type={
-                            typeof (opt as { default: unknown }).default ===
-                            "number"
-                              ? "number"
-                              : "text"
+                          id="escalation-factor"
+                          type="number"
+                          min="1"
+                          step="0.1"
+                          value={String(formEscalation.factor)}
+                          onChange={(e) =>
+                            setFormEscalation({
+                              ...formEscalation,
+                              factor: parseFloat(e.target.value) || 0,
+                            })
                           }
-                          min={
-                            typeof (opt as { default: unknown }).default ===
-                            "number"
-                              ? "1"
-                              : undefined
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label
+                          htmlFor="escalation-window"
+                          className="text-xs font-normal text-muted-foreground"
+                        >
+                          Window (min)
+                        </Label>
+                        <Input
+                          id="escalation-window"
+                          type="number"
+                          min="1"
+                          value={String(formEscalation.windowMinutes)}
+                          onChange={(e) =>
+                            setFormEscalation({
+                              ...formEscalation,
+                              windowMinutes: parseInt(e.target.value) || 0,
+                            })
                           }
-                          value={String(
-                            formChallengeSettings[
-                              key as keyof typeof formChallengeSettings
-                            ] ?? (opt as { default: unknown }).default
-                          )}
-                          onChange={(e) => {
-                            const value =
-                              typeof (opt as { default: unknown }).default ===
-                              "number"
-                                ? parseInt(e.target.value) || 0
-                                : e.target.value;
-                            setFormChallengeSettings((prev) => ({
-                              ...prev,
-                              [key]: value,
-                            }));
-                          }}
                         />
                       </div>
-                    ))}
-                  </div>
+                      <div className="space-y-1">
+                        <Label
+                          htmlFor="escalation-quiet"
+                          className="text-xs font-normal text-muted-foreground"
+                        >
+                          Quiet (min)
+                        </Label>
+                        <Input
+                          id="escalation-quiet"
+                          type="number"
+                          min="1"
+                          value={String(formEscalation.quietMinutes)}
+                          onChange={(e) =>
+                            setFormEscalation({
+                              ...formEscalation,
+                              quietMinutes: parseInt(e.target.value) || 0,
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {formEscalation
+                      ? "Each unlock within the window multiplies challenge durations and lengths by the factor, until the site is left alone for the quiet period"
+                      : "Challenges stay the same no matter how often you unlock"}
+                  </p>
                 </div>
-              );
-            })()}
+              </>
+            )}
 
             <div className="space-y-2">
-              <Label htmlFor="relock">Auto-relock (minutes)</Label>
-              <Input
-                id="relock"
-                type="number"
-                min="1"
-                placeholder="Never"
-                value={formAutoRelock}
-                onChange={(e) => setFormAutoRelock(e.target.value)}
-              />
+              <div className="flex items-center justify-between">
+                <Label>Schedule</Label>
+                <Button
+                  type="button"
+                  variant={formSchedule ? "default" : "outline"}
+                  size="xs"
+                  onClick={() =>
+                    setFormSchedule((schedule) =>
+                      schedule ? null : DEFAULT_SCHEDULE
+                    )
+                  }
+                >
+                  <IconCalendarTime className="size-3" />
+                  {formSchedule ? "Scheduled" : "Always"}
+                </Button>
+              </div>
+              {formSchedule && (
+                <ScheduleEditor
+                  schedule={formSchedule}
+                  onChange={setFormSchedule}
+                />
+              )}
               <p className="text-xs text-muted-foreground">
-                How long until the site is blocked again after unlocking
+                {formSchedule
+                  ? "Only blocked during these times. Windows ending before they start run past midnight."
+                  : "Blocked at all times"}
               </p>
             </div>
 
+            {lockdownError && (
+              <p className="text-xs text-destructive">{lockdownError}</p>
+            )}
             <Button
               onClick={handleSaveSite}
               disabled={!isFormValid}
@@ -706,26 +2045,226 @@ export default function App() {
                   </div>
                 </CardContent>
               </Card>
-            ) : stats.length === 0 ? (
+            ) : stats.length === 0 &&
+              reasons.length === 0 &&
+              pauses.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 <IconChartBar className="size-12 mx-auto mb-3 opacity-30" />
                 <p className="text-sm">No statistics yet</p>
                 <p className="text-xs mt-1">Visit blocked sites to see data</p>
               </div>
             ) : (
-              stats.map((stat) => (
-                <StatItem
-                  key={stat.siteId}
-                  stat={stat}
-                  site={siteMap.get(stat.siteId)}
+              <>
+                {stats.length > 0 && (
+                  <>
+                    <div className="grid grid-cols-2 gap-1">
+                      {STATS_RANGES.map((days) => (
+                        <Button
+                          key={days}
+                          variant={statsRange === days ? "default" : "outline"}
+                          size="xs"
+                          onClick={() => setStatsRange(days)}
+                        >
+                          {days} days
+                        </Button>
+                      ))}
+                    </div>
+                    <StatsOverview stats={stats} range={statsRange} />
+                  </>
+                )}
+                {stats.map((stat) => (
+                  <StatItem
+                    key={stat.siteId}
+                    stat={stat}
+                    site={siteMap.get(stat.siteId)}
+                    range={statsRange}
+                  />
+                ))}
+                {reasons.length > 0 && (
+                  <div className="space-y-2 pt-2">
+                    <Label>Unlock Reasons</Label>
+                    {reasons
+                      .slice()
+                      .reverse()
+                      .map((reason) => (
+                        <ReasonItem
+                          key={`${reason.siteId}-${reason.timestamp}`}
+                          reason={reason}
+                          site={siteMap.get(reason.siteId)}
+                        />
+                      ))}
+                  </div>
+                )}
+                {pauses.length > 0 && (
+                  <div className="space-y-2 pt-2">
+                    <Label>Pauses</Label>
+                    {pauses
+                      .slice()
+                      .reverse()
+                      .map((pause) => (
+                        <PauseItem key={pause.startedAt} pause={pause} />
+                      ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {view === "pause" && (
+          <div className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              Stops blocking every site until the time runs out. {pausesLeft} of{" "}
+              {settings.maxPausesPerDay} pauses left today.
+            </p>
+            {activePause ? (
+              <p className="text-sm">Blocking is already paused.</p>
+            ) : activeLockdown ? (
+              <p className="text-sm">
+                Blocking can't be paused during lockdown.
+              </p>
+            ) : pausesLeft <= 0 ? (
+              <p className="text-sm">
+                No pauses left today, blocking stays on until tomorrow.
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label>Duration</Label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {PAUSE_DURATIONS.map((minutes) => (
+                      <Button
+                        key={minutes}
+                        type="button"
+                        variant={
+                          pauseMinutes === minutes ? "default" : "outline"
+                        }
+                        size="sm"
+                        onClick={() => setPauseMinutes(minutes)}
+                      >
+                        {formatPauseDuration(minutes)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <StepChallenge
+                  step={settings.pauseChallenge}
+                  onComplete={(result) => setPauseResult(result ?? {})}
                 />
-              ))
+                {pauseResult && (
+                  <Button onClick={handleStartPause} className="w-full">
+                    <IconPlayerPause className="size-4" />
+                    Pause for {formatPauseDuration(pauseMinutes)}
+                  </Button>
+                )}
+                {pauseError && (
+                  <p className="text-xs text-destructive">{pauseError}</p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {view === "lockdown" && (
+          <div className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              Until it ends, rule sets can't be disabled, deleted, loosened or
+              given easier challenges, shorter schedules, budgets or longer
+              unlocks. Blocking can't be paused, pause settings can't be relaxed
+              and statistics stay on. Adding rules and harder challenges still
+              works.
+            </p>
+            {activeLockdown && (
+              <p className="text-sm">
+                Locked down until {formatLockdownEnd(activeLockdown.until)}.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label>{activeLockdown ? "Extend to" : "Duration"}</Label>
+              <div className="grid grid-cols-4 gap-2">
+                {LOCKDOWN_DURATIONS.map((hours) => (
+                  <Button
+                    key={hours}
+                    type="button"
+                    variant={lockdownHours === hours ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setLockdownHours(hours)}
+                  >
+                    {hours}h
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <Button onClick={handleStartLockdown} className="w-full">
+              <IconShieldLock className="size-4" />
+              {activeLockdown
+                ? `Lock Down for ${lockdownHours}h from Now`
+                : `Lock Down for ${lockdownHours}h`}
+            </Button>
+            {lockdownError && (
+              <p className="text-xs text-destructive">{lockdownError}</p>
+            )}
+
+            {activeLockdown && (
+              <Card className="bg-muted/30">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm">End Early</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {lockdownEndAllowedAt !== null ? (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        Can be ended from{" "}
+                        {formatLockdownEnd(lockdownEndAllowedAt)}. Extending the
+                        lockdown takes the request back.
+                      </p>
+                      <Button
+                        variant="destructive"
+                        onClick={handleEndLockdown}
+                        className="w-full"
+                      >
+                        End Lockdown
+                      </Button>
+                    </>
+                  ) : lockdownStep < LOCKDOWN_END_CHALLENGES.length ? (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        Step {lockdownStep + 1} of{" "}
+                        {LOCKDOWN_END_CHALLENGES.length}
+                      </p>
+                      {/* Keyed so consecutive steps start fresh */}
+                      <StepChallenge
+                        key={lockdownStep}
+                        step={LOCKDOWN_END_CHALLENGES[lockdownStep]}
+                        onComplete={() => setLockdownStep((step) => step + 1)}
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        The lockdown can be ended{" "}
+                        {LOCKDOWN_END_DELAY_MS / 60000} minutes after asking.
+                      </p>
+                      <Button
+                        variant="destructive"
+                        onClick={handleRequestLockdownEnd}
+                        className="w-full"
+                      >
+                        Ask to End
+                      </Button>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
             )}
           </div>
         )}
 
         {view === "settings" && (
           <div className="space-y-4">
+            {lockdownError && (
+              <p className="text-xs text-destructive">{lockdownError}</p>
+            )}
             <Card className="bg-muted/30">
               <CardHeader className="pb-2">
                 <CardTitle className="text-sm">Privacy</CardTitle>
@@ -735,7 +2274,7 @@ export default function App() {
                   <div>
                     <div className="font-medium text-sm">Track Statistics</div>
                     <div className="text-xs text-muted-foreground">
-                      Track visits, pass rate, and time spent
+                      Track visits, pass rate, time spent and unlock reasons
                     </div>
                   </div>
                   <Button
@@ -746,16 +2285,293 @@ export default function App() {
                     {settings.statsEnabled ? "Enabled" : "Disabled"}
                   </Button>
                 </div>
-                {settings.statsEnabled && stats.length > 0 && (
+                {settings.statsEnabled && (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium text-sm">Keep History</div>
+                      <div className="text-xs text-muted-foreground">
+                        Daily stats older than this are deleted
+                      </div>
+                    </div>
+                    <div className="flex gap-1">
+                      {STATS_RETENTION_OPTIONS.map((days) => (
+                        <Button
+                          key={days}
+                          variant={
+                            settings.statsRetentionDays === days
+                              ? "default"
+                              : "outline"
+                          }
+                          size="xs"
+                          onClick={() => handleRetentionChange(days)}
+                        >
+                          {days}d
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {settings.statsEnabled &&
+                  (stats.length > 0 || reasons.length > 0) && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={handleClearStats}
+                      className="w-full"
+                    >
+                      <IconTrash className="size-4" />
+                      Clear All Statistics
+                    </Button>
+                  )}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-muted/30">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Pause</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <div className="font-medium text-sm">Challenge</div>
+                    <div className="text-xs text-muted-foreground">
+                      Completed before pausing all blocking
+                    </div>
+                  </div>
+                  <Select
+                    value={settings.pauseChallenge.unlockMethod}
+                    onValueChange={(method) =>
+                      handleSettingsChange({
+                        pauseChallenge: createChallengeStep(
+                          method as UnlockMethod
+                        ),
+                      })
+                    }
+                  >
+                    <SelectTrigger size="sm" className="w-36 shrink-0">
+                      <SelectValue>
+                        {(method: UnlockMethod) => CHALLENGES[method].label}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(CHALLENGES) as UnlockMethod[]).map(
+                        (method) => (
+                          <SelectItem key={method} value={method}>
+                            {CHALLENGES[method].label}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <ChallengeOptionsEditor
+                  step={settings.pauseChallenge}
+                  idPrefix="pause-option"
+                  onChange={(challengeSettings) =>
+                    handleSettingsChange({
+                      pauseChallenge: {
+                        ...settings.pauseChallenge,
+                        challengeSettings,
+                      },
+                    })
+                  }
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <div className="font-medium text-sm">Pauses per Day</div>
+                    <div className="text-xs text-muted-foreground">
+                      So pausing doesn't become a loophole
+                    </div>
+                  </div>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={settings.maxPausesPerDay}
+                    onChange={(e) =>
+                      handleSettingsChange({
+                        maxPausesPerDay: Math.max(
+                          1,
+                          parseInt(e.target.value) || 1
+                        ),
+                      })
+                    }
+                    className="w-16 shrink-0"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-muted/30">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Relock</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="space-y-2">
+                  <div>
+                    <div className="font-medium text-sm">Warning</div>
+                    <div className="text-xs text-muted-foreground">
+                      Notify and count down on the page before a site locks
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-4 gap-2">
+                    {RELOCK_WARNING_OPTIONS.map((minutes) => (
+                      <Button
+                        key={minutes}
+                        type="button"
+                        variant={
+                          settings.relockWarningMinutes === minutes
+                            ? "default"
+                            : "outline"
+                        }
+                        size="sm"
+                        onClick={() =>
+                          handleSettingsChange({
+                            relockWarningMinutes: minutes,
+                          })
+                        }
+                      >
+                        {minutes === 0 ? "Off" : `${minutes}m`}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <div>
+                    <div className="font-medium text-sm">Extension</div>
+                    <div className="text-xs text-muted-foreground">
+                      Extra time a short challenge on the warning buys
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {RELOCK_EXTEND_OPTIONS.map((minutes) => (
+                      <Button
+                        key={minutes}
+                        type="button"
+                        variant={
+                          settings.relockExtendMinutes === minutes
+                            ? "default"
+                            : "outline"
+                        }
+                        size="sm"
+                        onClick={() =>
+                          handleSettingsChange({
+                            relockExtendMinutes: minutes,
+                          })
+                        }
+                      >
+                        {minutes}m
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-muted/30">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Backup</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <Button variant="outline" size="sm" onClick={handleExport}>
+                    <IconFileExport className="size-4" />
+                    Export
+                  </Button>
                   <Button
-                    variant="destructive"
+                    variant="outline"
                     size="sm"
-                    onClick={handleClearStats}
-                    className="w-full"
+                    onClick={() => importInputRef.current?.click()}
                   >
-                    <IconTrash className="size-4" />
-                    Clear All Statistics
+                    <IconFileImport className="size-4" />
+                    Import
                   </Button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={handleImportFile}
+                  />
+                </div>
+
+                {importError && (
+                  <p className="text-xs text-destructive">{importError}</p>
+                )}
+
+                {importPreview && (
+                  <div className="space-y-2">
+                    <div className="text-xs text-muted-foreground">
+                      {importPreview.sites.length} rule set
+                      {importPreview.sites.length === 1 ? "" : "s"} from{" "}
+                      {new Date(importPreview.exportedAt).toLocaleDateString()}
+                    </div>
+                    <div className="grid grid-cols-3 gap-1">
+                      {IMPORT_MODES.map(({ mode, label }) => (
+                        <Button
+                          key={mode}
+                          variant={importMode === mode ? "default" : "outline"}
+                          size="xs"
+                          onClick={() => setImportMode(mode)}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="space-y-1 max-h-32 overflow-y-auto">
+                      {importPreview.sites.map((site) => {
+                        const match = findImportMatch(sites, site, importMode);
+                        return (
+                          <div
+                            key={site.id}
+                            className="flex items-center justify-between gap-2 text-xs p-2 rounded-md bg-muted/40"
+                          >
+                            <span className="truncate">
+                              {site.name}{" "}
+                              <span className="text-muted-foreground">
+                                ({site.rules.length} pattern
+                                {site.rules.length === 1 ? "" : "s"})
+                              </span>
+                            </span>
+                            <Badge
+                              variant={match ? "secondary" : "default"}
+                              className="text-xs shrink-0"
+                            >
+                              {match ? `Replaces ${match.name}` : "New"}
+                            </Badge>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {importMode === "replace" && sites.length > 0 && (
+                      <p className="text-xs text-destructive">
+                        All {sites.length} current rule set
+                        {sites.length === 1 ? "" : "s"} will be removed
+                      </p>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs">Also import settings</span>
+                      <Button
+                        variant={importSettings ? "default" : "outline"}
+                        size="xs"
+                        onClick={() => setImportSettings((v) => !v)}
+                      >
+                        {importSettings ? "Yes" : "No"}
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setImportPreview(null)}
+                      >
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={handleConfirmImport}>
+                        <IconCheck className="size-4" />
+                        Import
+                      </Button>
+                    </div>
+                  </div>
                 )}
               </CardContent>
             </Card>
@@ -0,0 +1,125 @@
+interface RelockWarning {
+  siteId: string;
+  siteName: string;
+  expiresAt: number;
+  extendMinutes: number;
+}
+
+const STYLES = `
+  .overlay {
+    position: fixed;
+    right: 16px;
+    bottom: 16px;
+    z-index: 2147483647;
+    width: 280px;
+    padding: 12px;
+    border-radius: 10px;
+    background: #171717;
+    color: #fafafa;
+    font: 13px/1.4 system-ui, sans-serif;
+    box-shadow: 0 8px 24px rgb(0 0 0 / 0.35);
+  }
+  .row { display: flex; align-items: center; gap: 8px; }
+  .countdown { font-variant-numeric: tabular-nums; font-weight: 600; }
+  .actions { margin-top: 10px; }
+  button {
+    border: 0;
+    border-radius: 6px;
+    padding: 6px 10px;
+    font: inherit;
+    cursor: pointer;
+  }
+  .extend { background: #fafafa; color: #171717; }
+  .dismiss {
+    margin-left: auto;
+    background: transparent;
+    color: #a3a3a3;
+    padding: 2px 6px;
+  }
+  iframe {
+    display: block;
+    width: 100%;
+    height: 220px;
+    margin-top: 10px;
+    border: 0;
+    border-radius: 6px;
+  }
+`;
+
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export default defineContentScript({
+  // Injected by the background into tabs on a site that's about to relock
+  registration: "runtime",
+  matches: ["<all_urls>"],
+  main() {
+    // Every warning injects the script again, the first one keeps listening
+    const injected = globalThis as { distractedRelockWarning?: boolean };
+    if (injected.distractedRelockWarning) return;
+    injected.distractedRelockWarning = true;
+
+    let host: HTMLElement | null = null;
+    let timer: number | undefined;
+
+    const hide = () => {
+      clearInterval(timer);
+      host?.remove();
+      host = null;
+    };
+
+    const show = (warning: RelockWarning) => {
+      hide();
+
+      host = document.createElement("distracted-relock-warning");
+      const shadow = host.attachShadow({ mode: "closed" });
+      shadow.innerHTML = `
+        <style>${STYLES}</style>
+        <div class="overlay">
+          <div class="row">
+            <span class="name"></span>
+            <span>locks in</span>
+            <span class="countdown"></span>
+            <button class="dismiss" title="Dismiss">✕</button>
+          </div>
+          <div class="row actions">
+            <button class="extend"></button>
+          </div>
+        </div>
+      `;
+
+      const overlay = shadow.querySelector(".overlay")!;
+      const countdown = shadow.querySelector(".countdown")!;
+      const actions = shadow.querySelector(".actions")!;
+      shadow.querySelector(".name")!.textContent = warning.siteName;
+
+      const extend = shadow.querySelector<HTMLButtonElement>(".extend")!;
+      extend.textContent = `Extend ${warning.extendMinutes} min`;
+      extend.addEventListener("click", () => {
+        // The challenge runs in an extension page the site can't script
+        const frame = document.createElement("iframe");
+        frame.src = browser.runtime.getURL(
+          `/extend.html?siteId=${encodeURIComponent(warning.siteId)}`
+        );
+        actions.replaceWith(frame);
+      });
+      shadow.querySelector(".dismiss")!.addEventListener("click", hide);
+
+      const tick = () => {
+        countdown.textContent = formatCountdown(warning.expiresAt - Date.now());
+      };
+      tick();
+      timer = window.setInterval(tick, 1000);
+
+      overlay.setAttribute("role", "status");
+      document.documentElement.append(host);
+    };
+
+    browser.runtime.onMessage.addListener((message) => {
+      if (message?.type === "RELOCK_WARNING") show(message);
+      if (message?.type === "RELOCK_EXTENDED") hide();
+    });
+  },
+});
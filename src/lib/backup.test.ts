@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { parseBackup } from "./backup";
+import { isSiteActive, type BlockedSite } from "./storage";
+
+const SITE = {
+  id: "site",
+  name: "Example",
+  rules: [{ pattern: "example.com", kind: "domain", allow: false }],
+  challenges: [{ unlockMethod: "timer", challengeSettings: { duration: 30 } }],
+  autoRelockAfter: 10,
+  enabled: true,
+  createdAt: 0,
+};
+
+function importSite(fields: Record<string, unknown>): BlockedSite {
+  const result = parseBackup(
+    JSON.stringify({ version: 1, sites: [{ ...SITE, ...fields }] })
+  );
+  if (!result.ok) throw new Error(result.error);
+  return result.backup.sites[0];
+}
+
+describe("parseBackup", () => {
+  it.each([
+    ["days that aren't a list", { days: 1, windows: [] }],
+    ["windows that aren't a list", { days: [1], windows: "09:00" }],
+    ["malformed times", { days: [1], windows: [{ start: "9", end: 17 }] }],
+    ["no days", { days: [], windows: [{ start: "09:00", end: "17:00" }] }],
+  ])("drops a schedule with %s", (_, schedule) => {
+    const site = importSite({ schedule });
+    expect(site.schedule).toBeNull();
+    expect(() => isSiteActive(site)).not.toThrow();
+  });
+
+  it("keeps a valid schedule", () => {
+    const schedule = {
+      days: [1, 2],
+      windows: [{ start: "09:00", end: "17:00" }],
+    };
+    expect(importSite({ schedule }).schedule).toEqual(schedule);
+  });
+
+  it.each([
+    ["a non-numeric factor", { escalation: { factor: "2" } }],
+    ["a factor below 1", { escalation: { factor: 0.5 } }],
+    ["no budget minutes", { budget: { resetTime: "04:00" } }],
+    ["a malformed reset time", { budget: { minutes: 30, resetTime: "4am" } }],
+  ])("drops %s", (_, fields) => {
+    const site = importSite(fields);
+    expect(site.escalation).toBeNull();
+    expect(site.budget).toBeNull();
+  });
+
+  it("fills in escalation windows", () => {
+    expect(importSite({ escalation: { factor: 2 } }).escalation).toEqual({
+      factor: 2,
+      windowMinutes: 240,
+      quietMinutes: 60,
+    });
+  });
+
+  it("replaces challenge options of the wrong type", () => {
+    const site = importSite({
+      challenges: [
+        { unlockMethod: "timer", challengeSettings: { duration: "long" } },
+      ],
+    });
+    expect(site.challenges[0].challengeSettings).toEqual({ duration: 10 });
+  });
+
+  it("drops unknown keys", () => {
+    const site = importSite({
+      extra: true,
+      rules: [{ pattern: "example.com", kind: "domain", extra: true }],
+    });
+    expect(site).not.toHaveProperty("extra");
+    expect(site.rules[0]).not.toHaveProperty("extra");
+  });
+});
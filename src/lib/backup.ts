@@ -0,0 +1,344 @@
+import {
+  CHALLENGE_OPTIONS,
+  getDefaultChallengeSettings,
+  resolveChallengeSettings,
+  type ChallengeOptions,
+  type UnlockMethod,
+} from "./challenges";
+import {
+  createSiteId,
+  defaultSettings,
+  type BlockedSite,
+  type ChallengeStep,
+  type EscalationPolicy,
+  type PatternKind,
+  type PatternRule,
+  type PresetRef,
+  type Schedule,
+  type Settings,
+  type SiteBudget,
+} from "./storage";
+
+import { PATTERN_KINDS, inferPatternKind } from "./patterns";
+import { DEFAULT_ESCALATION } from "./escalation";
+
+export const BACKUP_VERSION = 1;
+
+export interface Backup {
+  version: number;
+  exportedAt: number;
+  sites: BlockedSite[];
+  settings: Settings;
+}
+
+export type ImportMode = "id" | "name" | "replace";
+
+export type ParseBackupResult =
+  { ok: true; backup: Backup } | { ok: false; error: string };
+
+export function createBackup(sites: BlockedSite[], settings: Settings): Backup {
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    sites,
+    settings,
+  };
+}
+
+export function downloadBackup(backup: Backup): void {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const date = new Date(backup.exportedAt).toISOString().slice(0, 10);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `distracted-backup-${date}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function parseRule(raw: unknown, where: string): PatternRule {
+  if (!isObject(raw) || typeof raw.pattern !== "string") {
+    throw new Error(`${where}: rule is missing a pattern`);
+  }
+  const kind = PATTERN_KINDS.includes(raw.kind as PatternKind)
+    ? (raw.kind as PatternKind)
+    : inferPatternKind(raw.pattern);
+  return { pattern: raw.pattern, kind, allow: raw.allow === true };
+}
+
+function parseStep(raw: unknown, where: string): ChallengeStep {
+  if (!isObject(raw) || typeof raw.unlockMethod !== "string") {
+    throw new Error(`${where}: challenge is missing an unlock method`);
+  }
+  if (!(raw.unlockMethod in CHALLENGE_OPTIONS)) {
+    throw new Error(`${where}: unknown unlock method "${raw.unlockMethod}"`);
+  }
+
+  // Options the challenge doesn't have, or of the wrong type, get defaults
+  const unlockMethod = raw.unlockMethod as UnlockMethod;
+  const defaults: ChallengeOptions = getDefaultChallengeSettings(unlockMethod);
+  const settings: ChallengeOptions = {};
+  if (isObject(raw.challengeSettings)) {
+    for (const [key, value] of Object.entries(raw.challengeSettings)) {
+      if (
+        key in defaults &&
+        typeof value === typeof defaults[key] &&
+        (typeof value !== "number" || (Number.isFinite(value) && value >= 0))
+      ) {
+        settings[key] = value as ChallengeOptions[string];
+      }
+    }
+  }
+
+  return {
+    unlockMethod,
+    challengeSettings: resolveChallengeSettings(unlockMethod, settings),
+  };
+}
+
+function parsePresetRef(raw: unknown, where: string): PresetRef | null {
+  if (
+    !isObject(raw) ||
+    typeof raw.id !== "string" ||
+    typeof raw.version !== "number" ||
+    !Array.isArray(raw.rules)
+  ) {
+    return null;
+  }
+  return {
+    id: raw.id,
+    version: raw.version,
+    rules: raw.rules.map((rule) => parseRule(rule, where)),
+  };
+}
+
+const isTime = (value: unknown): value is string =>
+  typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+// Whole numbers from `min` up, anything else falls back to the default
+function parseCount(raw: unknown, min: number, fallback: number): number {
+  return typeof raw === "number" && Number.isFinite(raw)
+    ? Math.max(min, Math.floor(raw))
+    : fallback;
+}
+
+// A schedule that can't be read is dropped, so the site is always blocked
+function parseSchedule(raw: unknown): Schedule | null {
+  if (!isObject(raw) || !Array.isArray(raw.days)) return null;
+  if (!Array.isArray(raw.windows)) return null;
+
+  const days = [...new Set(raw.days)].filter(
+    (day): day is number => Number.isInteger(day) && day >= 0 && day <= 6
+  );
+  const windows = raw.windows.flatMap((window) =>
+    isObject(window) && isTime(window.start) && isTime(window.end)
+      ? [{ start: window.start, end: window.end }]
+      : []
+  );
+  return days.length > 0 && windows.length > 0 ? { days, windows } : null;
+}
+
+function parseBudget(raw: unknown): SiteBudget | null {
+  if (
+    !isObject(raw) ||
+    typeof raw.minutes !== "number" ||
+    !Number.isFinite(raw.minutes) ||
+    !isTime(raw.resetTime)
+  ) {
+    return null;
+  }
+  return {
+    minutes: Math.max(1, Math.floor(raw.minutes)),
+    resetTime: raw.resetTime,
+  };
+}
+
+function parseEscalation(raw: unknown): EscalationPolicy | null {
+  if (
+    !isObject(raw) ||
+    typeof raw.factor !== "number" ||
+    !Number.isFinite(raw.factor) ||
+    raw.factor < 1
+  ) {
+    return null;
+  }
+  return {
+    factor: raw.factor,
+    windowMinutes: parseCount(
+      raw.windowMinutes,
+      1,
+      DEFAULT_ESCALATION.windowMinutes
+    ),
+    quietMinutes: parseCount(
+      raw.quietMinutes,
+      1,
+      DEFAULT_ESCALATION.quietMinutes
+    ),
+  };
+}
+
+function parseSite(raw: unknown, index: number): BlockedSite {
+  let where = `Rule set ${index + 1}`;
+  if (!isObject(raw) || typeof raw.name !== "string" || !raw.name.trim()) {
+    throw new Error(`${where}: missing a name`);
+  }
+  where = `"${raw.name}"`;
+
+  if (!Array.isArray(raw.rules) || raw.rules.length === 0) {
+    throw new Error(`${where}: has no URL patterns`);
+  }
+
+  // Sites exported before chained challenges hold a single unlockMethod
+  const rawSteps = Array.isArray(raw.challenges)
+    ? raw.challenges
+    : [
+        {
+          unlockMethod: raw.unlockMethod,
+          challengeSettings: raw.challengeSettings,
+        },
+      ];
+  if (rawSteps.length === 0) {
+    throw new Error(`${where}: has no challenges`);
+  }
+
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : createSiteId(),
+    name: raw.name.trim(),
+    rules: raw.rules.map((rule) => parseRule(rule, where)),
+    challenges: rawSteps.map((step) => parseStep(step, where)),
+    preset: parsePresetRef(raw.preset, where),
+    autoRelockAfter:
+      typeof raw.autoRelockAfter === "number"
+        ? parseCount(raw.autoRelockAfter, 1, 1)
+        : null,
+    enabled: raw.enabled !== false,
+    schedule: parseSchedule(raw.schedule),
+    budget: parseBudget(raw.budget),
+    escalation: parseEscalation(raw.escalation),
+    createdAt: typeof raw.createdAt === "number" ? raw.createdAt : Date.now(),
+  };
+}
+
+function parseSettings(raw: unknown): Settings {
+  if (!isObject(raw)) return defaultSettings;
+
+  return {
+    ...defaultSettings,
+    statsEnabled:
+      typeof raw.statsEnabled === "boolean"
+        ? raw.statsEnabled
+        : defaultSettings.statsEnabled,
+    statsRetentionDays: parseCount(
+      raw.statsRetentionDays,
+      1,
+      defaultSettings.statsRetentionDays
+    ),
+    pauseChallenge:
+      raw.pauseChallenge === undefined
+        ? defaultSettings.pauseChallenge
+        : parseStep(raw.pauseChallenge, "Pause settings"),
+    maxPausesPerDay: parseCount(
+      raw.maxPausesPerDay,
+      1,
+      defaultSettings.maxPausesPerDay
+    ),
+    relockWarningMinutes: parseCount(
+      raw.relockWarningMinutes,
+      0,
+      defaultSettings.relockWarningMinutes
+    ),
+    relockExtendMinutes: parseCount(
+      raw.relockExtendMinutes,
+      1,
+      defaultSettings.relockExtendMinutes
+    ),
+  };
+}
+
+/**
+ * Validate an exported file, filling in anything older versions didn't have
+ */
+export function parseBackup(text: string): ParseBackupResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "File is not valid JSON" };
+  }
+
+  if (!isObject(raw) || typeof raw.version !== "number") {
+    return { ok: false, error: "File is not a distracted backup" };
+  }
+  if (raw.version > BACKUP_VERSION) {
+    return {
+      ok: false,
+      error: `Backup is from a newer version (v${raw.version}), update the extension first`,
+    };
+  }
+  if (!Array.isArray(raw.sites)) {
+    return { ok: false, error: "Backup has no rule sets" };
+  }
+
+  try {
+    return {
+      ok: true,
+      backup: {
+        version: raw.version,
+        exportedAt:
+          typeof raw.exportedAt === "number" ? raw.exportedAt : Date.now(),
+        sites: raw.sites.map(parseSite),
+        settings: parseSettings(raw.settings),
+      },
+    };
+  } catch (err) {
+    return { ok: false, error: (err as Error).message };
+  }
+}
+
+/**
+ * Find the existing site an imported one would overwrite
+ */
+export function findImportMatch(
+  existing: BlockedSite[],
+  site: BlockedSite,
+  mode: ImportMode
+): BlockedSite | undefined {
+  if (mode === "id") return existing.find((s) => s.id === site.id);
+  if (mode === "name") {
+    const name = site.name.toLowerCase();
+    return existing.find((s) => s.name.toLowerCase() === name);
+  }
+  return undefined;
+}
+
+export function mergeSites(
+  existing: BlockedSite[],
+  incoming: BlockedSite[],
+  mode: ImportMode
+): BlockedSite[] {
+  if (mode === "replace") return incoming;
+
+  const merged = [...existing];
+  for (const site of incoming) {
+    const match = findImportMatch(merged, site, mode);
+    if (match) {
+      // Keep the local identity so stats and unlocks stay attached
+      merged[merged.indexOf(match)] = {
+        ...site,
+        id: match.id,
+        createdAt: match.createdAt,
+      };
+    } else {
+      const idTaken = merged.some((s) => s.id === site.id);
+      merged.push(idTaken ? { ...site, id: createSiteId() } : site);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,79 @@
+import type { BlockedSite, BudgetUsage, SiteBudget } from "./storage";
+import { parseTime } from "./schedule";
+
+export const DEFAULT_BUDGET: SiteBudget = {
+  minutes: 30,
+  resetTime: "04:00",
+};
+
+export interface BudgetStatus {
+  limitMs: number;
+  usedMs: number;
+  remainingMs: number;
+  resetsAt: number;
+}
+
+/**
+ * The most recent reset time at or before now
+ */
+export function getBudgetPeriodStart(
+  resetTime: string,
+  now = new Date()
+): number {
+  const reset = new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate(),
+    0,
+    parseTime(resetTime)
+  );
+  if (reset.getTime() > now.getTime()) reset.setDate(reset.getDate() - 1);
+  return reset.getTime();
+}
+
+export function getNextBudgetReset(
+  resetTime: string,
+  now = new Date()
+): number {
+  const reset = new Date(getBudgetPeriodStart(resetTime, now));
+  reset.setDate(reset.getDate() + 1);
+  return reset.getTime();
+}
+
+export function getBudgetStatus(
+  budget: SiteBudget,
+  usage: BudgetUsage | undefined,
+  now = new Date()
+): BudgetStatus {
+  const periodStart = getBudgetPeriodStart(budget.resetTime, now);
+  const limitMs = budget.minutes * 60 * 1000;
+  // Usage from a previous period has been reset
+  const usedMs = usage && usage.periodStart === periodStart ? usage.usedMs : 0;
+
+  return {
+    limitMs,
+    usedMs,
+    remainingMs: Math.max(0, limitMs - usedMs),
+    resetsAt: getNextBudgetReset(budget.resetTime, now),
+  };
+}
+
+/**
+ * Sites whose budget still has time left, these are not blocked
+ */
+export function getBudgetExemptSiteIds(
+  sites: BlockedSite[],
+  usage: Record<string, BudgetUsage>,
+  now = new Date()
+): Set<string> {
+  const exempt = new Set<string>();
+
+  for (const site of sites) {
+    if (!site.budget) continue;
+    if (getBudgetStatus(site.budget, usage[site.id], now).remainingMs > 0) {
+      exempt.add(site.id);
+    }
+  }
+
+  return exempt;
+}
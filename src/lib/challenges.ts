@@ -0,0 +1,150 @@
+/**
+ * Challenge options without the components that render them, so the
+ * background can resolve and compare settings without pulling in React
+ */
+
+export type ChallengeOptionValue = number | string | boolean;
+export type ChallengeOptions = Record<string, ChallengeOptionValue>;
+
+export type OptionDefinition<T extends ChallengeOptionValue> = {
+  label: string;
+  default: T;
+  description: string;
+  scales?: true; // multiplied when escalation makes the challenge harder
+};
+
+export const CHALLENGE_OPTIONS = {
+  timer: {
+    duration: {
+      label: "Duration (seconds)",
+      default: 10,
+      description: "The duration of the timer",
+      scales: true,
+    },
+  },
+  hold: {
+    duration: {
+      label: "Duration (seconds)",
+      default: 10,
+      description: "How long to hold the button for",
+      scales: true,
+    },
+  },
+  type: {
+    length: {
+      label: "Length (characters)",
+      default: 36,
+      description: "How many characters to type",
+      scales: true,
+    },
+  },
+  math: {
+    problems: {
+      label: "Problems",
+      default: 3,
+      description: "How many problems to solve",
+    },
+    digits: {
+      label: "Digits per number",
+      default: 2,
+      description: "How many digits each operand has",
+    },
+    operators: {
+      label: "Operators (+-*/)",
+      default: "+-*",
+      description: "Which operators problems can use",
+    },
+  },
+  reflect: {
+    minWords: {
+      label: "Minimum words",
+      default: 10,
+      description: "How many words the reason needs",
+    },
+    minChars: {
+      label: "Minimum characters",
+      default: 50,
+      description: "How many characters the reason needs",
+    },
+  },
+} as const;
+
+export type UnlockMethod = keyof typeof CHALLENGE_OPTIONS;
+
+type Widen<T> = T extends number
+  ? number
+  : T extends string
+    ? string
+    : T extends boolean
+      ? boolean
+      : T;
+
+// Infer the settings type for each challenge from its options defaults
+export type ChallengeSettingsMap = {
+  [M in UnlockMethod]: {
+    -readonly [K in keyof (typeof CHALLENGE_OPTIONS)[M]]: Widen<
+      (typeof CHALLENGE_OPTIONS)[M][K] extends { default: infer D } ? D : never
+    >;
+  };
+};
+
+const getOptions = (
+  method: UnlockMethod
+): Record<string, OptionDefinition<ChallengeOptionValue>> =>
+  CHALLENGE_OPTIONS[method];
+
+export function getDefaultChallengeSettings<M extends UnlockMethod>(
+  method: M
+): ChallengeSettingsMap[M] {
+  const settings: ChallengeOptions = {};
+  for (const [key, opt] of Object.entries(getOptions(method))) {
+    settings[key] = opt.default;
+  }
+  return settings as ChallengeSettingsMap[M];
+}
+
+/**
+ * Stored settings filled in with defaults for options they don't have
+ */
+export function resolveChallengeSettings<M extends UnlockMethod>(
+  method: M,
+  settings: Partial<ChallengeSettingsMap[M]> | undefined
+): ChallengeSettingsMap[M] {
+  return { ...getDefaultChallengeSettings(method), ...(settings ?? {}) };
+}
+
+/**
+ * Multiply the options marked as scaling, used to make challenges harder.
+ * The rest (e.g. math digits) would quickly make a challenge impossible.
+ */
+export function scaleChallengeSettings<Settings extends ChallengeOptions>(
+  method: UnlockMethod,
+  settings: Settings,
+  multiplier: number
+): Settings {
+  if (multiplier === 1) return settings;
+
+  const options = getOptions(method);
+  const scaled: ChallengeOptions = { ...settings };
+  for (const [key, value] of Object.entries(settings)) {
+    if (typeof value === "number" && options[key]?.scales) {
+      scaled[key] = Math.ceil(value * multiplier);
+    }
+  }
+  return scaled as Settings;
+}
+
+export function summarizeChallengeSettings<M extends UnlockMethod>(
+  method: M,
+  settings: Partial<ChallengeSettingsMap[M]> | undefined
+): string | null {
+  const resolved = resolveChallengeSettings(method, settings);
+  const parts: string[] = [];
+  for (const key of Object.keys(getOptions(method))) {
+    const value = resolved[key as keyof typeof resolved];
+    if (value !== undefined) {
+      parts.push(`${value}${key === "duration" ? "s" : ""}`);
+    }
+  }
+  return parts.length > 0 ? parts.join(", ") : null;
+}
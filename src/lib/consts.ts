@@ -4,9 +4,33 @@ export const STORAGE_KEYS = {
   BLOCKED_SITES: "blockedSites",
   STATS: "siteStats",
   SETTINGS: "settings",
+  BUDGET_USAGE: "budgetUsage",
+  UNLOCK_REASONS: "unlockReasons",
+  UNLOCK_HISTORY: "unlockHistory",
+  SCHEMA_VERSION: "schemaVersion",
+  REJECTED_PATTERNS: "rejectedPatterns",
+  PAUSES: "pauses",
+  LOCKDOWN: "lockdown",
 } as const;
 
+export const LEGACY_STATS_KEY = "stats"; // Where UPDATE_STATS used to write
+
 export const RULE_ID_BASE = 1000;
+export const RULE_ID_SPACE = 2 ** 30; // DNR rule ids are hashed into this range
+export const MAX_UNLOCK_REASONS = 200; // Oldest reasons are dropped past this
+export const UNLOCK_HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+export const MAX_ESCALATION_MULTIPLIER = 10;
 export const MAX_RULES_PER_SITE = 100; // Max patterns per site
 export const UNLOCK_PREFIX = "unlock_";
 export const ALARM_PREFIX = "relock_";
+export const WARNING_ALARM_PREFIX = "warn_"; // must not start with ALARM_PREFIX
+export const SCHEDULE_ALARM = "schedule";
+export const TRACKER_ALARM = "tracker";
+export const BUDGET_ALARM = "budget";
+export const BUDGET_RESET_ALARM = "budget_reset";
+export const PAUSE_ALARM = "pause";
+export const BADGE_ALARM = "badge";
+export const PAUSE_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+export const ACTIVE_SESSION_KEY = "activeSession";
+export const POPUP_VIEW_KEY = "popupView"; // view the popup opens on, once
+export const QUICK_BLOCK_SITE_ID = "quick-block"; // where the block shortcut adds domains
@@ -0,0 +1,47 @@
+import type { EscalationPolicy } from "./storage";
+import { MAX_ESCALATION_MULTIPLIER } from "./consts";
+
+export const DEFAULT_ESCALATION: EscalationPolicy = {
+  factor: 1.5,
+  windowMinutes: 240,
+  quietMinutes: 60,
+};
+
+export interface EscalationState {
+  unlockCount: number; // unlocks inside the window before this one
+  multiplier: number;
+}
+
+export function getEscalationState(
+  policy: EscalationPolicy,
+  unlocks: number[],
+  now = Date.now()
+): EscalationState {
+  const recent = unlocks.filter(
+    (t) => t > now - policy.windowMinutes * 60 * 1000
+  );
+  const last = Math.max(0, ...recent);
+
+  // A quiet stretch since the last unlock decays back to baseline
+  if (recent.length === 0 || now - last >= policy.quietMinutes * 60 * 1000) {
+    return { unlockCount: 0, multiplier: 1 };
+  }
+
+  return {
+    unlockCount: recent.length,
+    multiplier: Math.min(
+      Math.max(1, policy.factor) ** recent.length,
+      MAX_ESCALATION_MULTIPLIER
+    ),
+  };
+}
+
+export function formatMultiplier(multiplier: number): string {
+  return `x${Math.round(multiplier * 10) / 10}`;
+}
+
+export function formatEscalationWindow(minutes: number): string {
+  if (minutes % 60 !== 0) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return hours === 1 ? "hour" : `${hours} hours`;
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import {
+  LOCKDOWN_END_DELAY_MS,
+  canEndLockdown,
+  findSettingsWeakening,
+  findSitesWeakening,
+  findSiteWeakening,
+  isLockdownWeakened,
+} from "./lockdown";
+import { defaultSettings, type BlockedSite, type Lockdown } from "./storage";
+
+const SITE: BlockedSite = {
+  id: "site",
+  name: "Example",
+  rules: [{ pattern: "example.com", kind: "domain", allow: false }],
+  challenges: [{ unlockMethod: "timer", challengeSettings: { duration: 30 } }],
+  autoRelockAfter: 10,
+  enabled: true,
+  schedule: {
+    days: [1, 2, 3, 4, 5],
+    windows: [{ start: "09:00", end: "17:00" }],
+  },
+  budget: null,
+  escalation: { factor: 2, windowMinutes: 60, quietMinutes: 30 },
+  createdAt: 0,
+};
+
+const WEAKER: [string, Partial<BlockedSite>][] = [
+  ["disabling", { enabled: false }],
+  ["removing a step", { challenges: [] }],
+  [
+    "shortening a step",
+    {
+      challenges: [
+        { unlockMethod: "timer", challengeSettings: { duration: 1 } },
+      ],
+    },
+  ],
+  [
+    "swapping a step",
+    {
+      challenges: [
+        { unlockMethod: "hold", challengeSettings: { duration: 60 } },
+      ],
+    },
+  ],
+  ["removing a block rule", { rules: [] }],
+  [
+    "adding an allow rule",
+    {
+      rules: [
+        ...SITE.rules,
+        { pattern: "example.com/ok", kind: "path", allow: true },
+      ],
+    },
+  ],
+  [
+    "narrowing the schedule",
+    { schedule: { days: [1], windows: [{ start: "09:00", end: "09:01" }] } },
+  ],
+  ["adding a budget", { budget: { minutes: 1440, resetTime: "00:00" } }],
+  ["longer unlocks", { autoRelockAfter: 60 }],
+  ["no auto-relock", { autoRelockAfter: null }],
+  ["removing escalation", { escalation: null }],
+  [
+    "a lower escalation factor",
+    { escalation: { factor: 1.1, windowMinutes: 60, quietMinutes: 30 } },
+  ],
+];
+
+const STRONGER: [string, Partial<BlockedSite>][] = [
+  [
+    "adding a step",
+    {
+      challenges: [
+        ...SITE.challenges,
+        {
+          unlockMethod: "reflect",
+          challengeSettings: { minWords: 5, minChars: 10 },
+        },
+      ],
+    },
+  ],
+  [
+    "a longer step",
+    {
+      challenges: [
+        { unlockMethod: "timer", challengeSettings: { duration: 60 } },
+      ],
+    },
+  ],
+  [
+    "adding a block rule",
+    {
+      rules: [
+        ...SITE.rules,
+        { pattern: "other.com", kind: "domain", allow: false },
+      ],
+    },
+  ],
+  ["removing the schedule", { schedule: null }],
+  [
+    "widening the schedule",
+    {
+      schedule: {
+        days: [0, 1, 2, 3, 4, 5, 6],
+        windows: [{ start: "08:00", end: "18:00" }],
+      },
+    },
+  ],
+  ["shorter unlocks", { autoRelockAfter: 5 }],
+  [
+    "a higher escalation factor",
+    { escalation: { factor: 3, windowMinutes: 120, quietMinutes: 60 } },
+  ],
+];
+
+describe("findSiteWeakening", () => {
+  it.each(WEAKER)("refuses %s", (_, updates) => {
+    expect(findSiteWeakening(SITE, { ...SITE, ...updates })).not.toBeNull();
+  });
+
+  it.each(STRONGER)("allows %s", (_, updates) => {
+    expect(findSiteWeakening(SITE, { ...SITE, ...updates })).toBeNull();
+  });
+
+  it("refuses raising an existing budget", () => {
+    const budgeted = { ...SITE, budget: { minutes: 30, resetTime: "04:00" } };
+    expect(
+      findSiteWeakening(budgeted, {
+        ...budgeted,
+        budget: { minutes: 60, resetTime: "04:00" },
+      })
+    ).not.toBeNull();
+    expect(
+      findSiteWeakening(budgeted, { ...budgeted, budget: null })
+    ).toBeNull();
+  });
+});
+
+describe("findSitesWeakening", () => {
+  it("refuses deleting a site but allows adding one", () => {
+    expect(findSitesWeakening([SITE], [])).not.toBeNull();
+    expect(
+      findSitesWeakening([SITE], [SITE, { ...SITE, id: "new" }])
+    ).toBeNull();
+  });
+});
+
+describe("findSettingsWeakening", () => {
+  it.each([
+    ["turning statistics off", { statsEnabled: false }],
+    [
+      "an easier pause challenge",
+      {
+        pauseChallenge: {
+          unlockMethod: "timer" as const,
+          challengeSettings: { duration: 1 },
+        },
+      },
+    ],
+    ["more pauses per day", { maxPausesPerDay: 10 }],
+    ["longer extensions", { relockExtendMinutes: 60 }],
+  ])("refuses %s", (_, updates) => {
+    expect(
+      findSettingsWeakening(defaultSettings, { ...defaultSettings, ...updates })
+    ).not.toBeNull();
+  });
+
+  it("allows fewer pauses and a harder pause challenge", () => {
+    expect(
+      findSettingsWeakening(defaultSettings, {
+        ...defaultSettings,
+        maxPausesPerDay: 1,
+        pauseChallenge: {
+          unlockMethod: "reflect",
+          challengeSettings: { minWords: 50, minChars: 200 },
+        },
+      })
+    ).toBeNull();
+  });
+});
+
+describe("isLockdownWeakened", () => {
+  const NOW = 10 * LOCKDOWN_END_DELAY_MS;
+  const LOCKDOWN: Lockdown = { startedAt: 0, until: NOW * 2 };
+  const REQUESTED = { ...LOCKDOWN, endRequestedAt: NOW - 1000 };
+  const WAITED = { ...LOCKDOWN, endRequestedAt: NOW - LOCKDOWN_END_DELAY_MS };
+
+  it.each([
+    ["ending without a request", LOCKDOWN, null],
+    ["ending during the wait", REQUESTED, null],
+    ["shortening", LOCKDOWN, { ...LOCKDOWN, until: NOW + 1 }],
+    ["backdating a request", LOCKDOWN, { ...LOCKDOWN, endRequestedAt: 0 }],
+    ["moving a request back", REQUESTED, { ...REQUESTED, endRequestedAt: 0 }],
+  ])("refuses %s", (_, before, after) => {
+    expect(isLockdownWeakened(before, after, NOW)).toBe(true);
+  });
+
+  it.each([
+    ["ending after the wait", WAITED, null],
+    ["requesting the end now", LOCKDOWN, { ...LOCKDOWN, endRequestedAt: NOW }],
+    ["extending", REQUESTED, { startedAt: 0, until: NOW * 3 }],
+  ])("allows %s", (_, before, after) => {
+    expect(isLockdownWeakened(before, after, NOW)).toBe(false);
+  });
+
+  it("only allows ending once the wait is over", () => {
+    expect(canEndLockdown(LOCKDOWN, NOW)).toBe(false);
+    expect(canEndLockdown(REQUESTED, NOW)).toBe(false);
+    expect(canEndLockdown(WAITED, NOW)).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+import { resolveChallengeSettings } from "./challenges";
+import { isScheduleActive, parseTime } from "./schedule";
+import type {
+  BlockedSite,
+  ChallengeStep,
+  EscalationPolicy,
+  Lockdown,
+  PatternRule,
+  Schedule,
+  Settings,
+  SiteBudget,
+} from "./storage";
+
+export const LOCKDOWN_DURATIONS = [1, 4, 8, 24]; // hours
+
+// Ending early takes a long challenge in the popup, then a wait the
+// background enforces
+export const LOCKDOWN_END_CHALLENGES: ChallengeStep[] = [
+  { unlockMethod: "type", challengeSettings: { length: 180 } },
+  {
+    unlockMethod: "reflect",
+    challengeSettings: { minWords: 50, minChars: 250 },
+  },
+];
+export const LOCKDOWN_END_DELAY_MS = 15 * 60 * 1000;
+// How far a new end request may predate the check of the write
+const END_REQUEST_TOLERANCE_MS = 60 * 1000;
+
+export function getActiveLockdown(
+  lockdown: Lockdown | null,
+  now = Date.now()
+): Lockdown | null {
+  return lockdown && lockdown.until > now ? lockdown : null;
+}
+
+/**
+ * When an active lockdown can be ended, null until the end is requested
+ */
+export function getLockdownEndAllowedAt(lockdown: Lockdown): number | null {
+  return lockdown.endRequestedAt === undefined
+    ? null
+    : lockdown.endRequestedAt + LOCKDOWN_END_DELAY_MS;
+}
+
+export function canEndLockdown(lockdown: Lockdown, now = Date.now()): boolean {
+  const allowedAt = getLockdownEndAllowedAt(lockdown);
+  return allowedAt !== null && allowedAt <= now;
+}
+
+/**
+ * Whether a write to an active lockdown ends or shortens it before the wait
+ * is over, or backdates the end request to skip the wait
+ */
+export function isLockdownWeakened(
+  before: Lockdown,
+  after: Lockdown | null,
+  now = Date.now()
+): boolean {
+  if (!after || after.until < before.until) {
+    return !canEndLockdown(before, now);
+  }
+  if (after.endRequestedAt === undefined) return false;
+  if (before.endRequestedAt !== undefined) {
+    return after.endRequestedAt < before.endRequestedAt;
+  }
+  return after.endRequestedAt < now - END_REQUEST_TOLERANCE_MS;
+}
+
+/**
+ * A different challenge counts as weaker, there's no telling which is harder
+ */
+function isWeakerStep(before: ChallengeStep, after: ChallengeStep): boolean {
+  if (before.unlockMethod !== after.unlockMethod) return true;
+
+  const beforeSettings: Record<string, unknown> = resolveChallengeSettings(
+    before.unlockMethod,
+    before.challengeSettings
+  );
+  const afterSettings: Record<string, unknown> = resolveChallengeSettings(
+    after.unlockMethod,
+    after.challengeSettings
+  );
+  return Object.entries(beforeSettings).some(([key, value]) =>
+    typeof value === "number"
+      ? (afterSettings[key] as number) < value
+      : afterSettings[key] !== value
+  );
+}
+
+const ruleKey = (rule: PatternRule) => `${rule.kind}|${rule.pattern}`;
+
+/**
+ * Whether the site is blocked at every minute of the week it used to be.
+ * No schedule blocks at all times.
+ */
+function coversSchedule(
+  before: Schedule | null | undefined,
+  after: Schedule | null | undefined
+): boolean {
+  if (!after) return true;
+  if (!before) return false;
+
+  for (let day = 0; day < 7; day++) {
+    for (let minute = 0; minute < 24 * 60; minute++) {
+      // 7 Jan 2024 is a Sunday, so `day` lines up with Date#getDay
+      const date = new Date(2024, 0, 7 + day, 0, minute);
+      if (isScheduleActive(before, date) && !isScheduleActive(after, date)) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * A budget gives free access, so any budget is weaker than none
+ */
+function isWeakerBudget(
+  before: SiteBudget | null | undefined,
+  after: SiteBudget | null | undefined
+): boolean {
+  if (!after) return false;
+  if (!before) return true;
+  return (
+    after.minutes > before.minutes ||
+    parseTime(after.resetTime) !== parseTime(before.resetTime)
+  );
+}
+
+function isWeakerEscalation(
+  before: EscalationPolicy | null | undefined,
+  after: EscalationPolicy | null | undefined
+): boolean {
+  if (!before) return false;
+  if (!after) return true;
+  return (
+    after.factor < before.factor ||
+    after.windowMinutes < before.windowMinutes ||
+    after.quietMinutes < before.quietMinutes
+  );
+}
+
+/**
+ * Why the change to a site weakens it, or null if it doesn't. Adding steps,
+ * block rules or blocked times, or making challenges harder is always fine.
+ */
+export function findSiteWeakening(
+  before: BlockedSite,
+  after: BlockedSite
+): string | null {
+  if (before.enabled && !after.enabled) {
+    return "Rule sets can't be disabled during lockdown";
+  }
+
+  if (
+    after.challenges.length < before.challenges.length ||
+    before.challenges.some((step, i) => isWeakerStep(step, after.challenges[i]))
+  ) {
+    return "Challenges can't be made easier during lockdown";
+  }
+
+  const blocked = new Set(after.rules.filter((r) => !r.allow).map(ruleKey));
+  const allowed = new Set(before.rules.filter((r) => r.allow).map(ruleKey));
+  if (
+    before.rules.some((r) => !r.allow && !blocked.has(ruleKey(r))) ||
+    after.rules.some((r) => r.allow && !allowed.has(ruleKey(r)))
+  ) {
+    return "Rules can't be loosened during lockdown";
+  }
+
+  if (!coversSchedule(before.schedule, after.schedule)) {
+    return "The schedule can't block less during lockdown";
+  }
+
+  if (isWeakerBudget(before.budget, after.budget)) {
+    return "Daily budgets can't be added or raised during lockdown";
+  }
+
+  // No auto-relock keeps the site unlocked the longest
+  if (
+    (after.autoRelockAfter ?? Infinity) > (before.autoRelockAfter ?? Infinity)
+  ) {
+    return "Unlocks can't be made longer during lockdown";
+  }
+
+  if (isWeakerEscalation(before.escalation, after.escalation)) {
+    return "Escalation can't be weakened during lockdown";
+  }
+
+  return null;
+}
+
+export function findSitesWeakening(
+  before: BlockedSite[],
+  after: BlockedSite[]
+): string | null {
+  for (const site of before) {
+    const updated = after.find((s) => s.id === site.id);
+    if (!updated) return "Rule sets can't be deleted during lockdown";
+
+    const weakening = findSiteWeakening(site, updated);
+    if (weakening) return weakening;
+  }
+  return null;
+}
+
+export function findSettingsWeakening(
+  before: Settings,
+  after: Settings
+): string | null {
+  if (before.statsEnabled && !after.statsEnabled) {
+    return "Statistics can't be turned off during lockdown";
+  }
+  if (isWeakerStep(before.pauseChallenge, after.pauseChallenge)) {
+    return "The pause challenge can't be made easier during lockdown";
+  }
+  if (after.maxPausesPerDay > before.maxPausesPerDay) {
+    return "More pauses can't be allowed during lockdown";
+  }
+  if (after.relockExtendMinutes > before.relockExtendMinutes) {
+    return "Extensions can't be made longer during lockdown";
+  }
+  return null;
+}
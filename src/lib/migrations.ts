@@ -0,0 +1,176 @@
+import type {
+  BlockedSite,
+  ChallengeStep,
+  PatternRule,
+  SiteStats,
+} from "./storage";
+import { inferPatternKind } from "./patterns";
+import { LEGACY_STATS_KEY, STORAGE_KEYS } from "./consts";
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+// Sites saved before chained challenges had a single unlockMethod, and
+// sites saved before challenge options existed have no challengeSettings
+type LegacyBlockedSite = Omit<BlockedSite, "challenges"> &
+  Partial<ChallengeStep> & { challenges?: Partial<ChallengeStep>[] };
+
+function migrateBlockedSite(site: LegacyBlockedSite): BlockedSite {
+  const { unlockMethod, challengeSettings, challenges, ...rest } = site;
+  const steps = challenges ?? [{ unlockMethod, challengeSettings }];
+
+  return {
+    ...rest,
+    challenges: steps.map((step) => ({
+      unlockMethod: step.unlockMethod ?? "timer",
+      challengeSettings: step.challengeSettings ?? {},
+    })),
+  } as BlockedSite;
+}
+
+// Stats saved before daily history
+type LegacySiteStats = Omit<SiteStats, "daily">;
+
+function mergeSiteStats(
+  a: LegacySiteStats,
+  b: LegacySiteStats
+): LegacySiteStats {
+  return {
+    siteId: a.siteId,
+    visitCount: a.visitCount + b.visitCount,
+    passedCount: a.passedCount + b.passedCount,
+    timeSpentMs: a.timeSpentMs + b.timeSpentMs,
+    lastVisit: Math.max(a.lastVisit, b.lastVisit),
+  };
+}
+
+/**
+ * Ordered oldest first. Never edit a migration once released, add a new one
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Move stats from the legacy stats key",
+    migrate: async () => {
+      const result = (await browser.storage.local.get([
+        LEGACY_STATS_KEY,
+        STORAGE_KEYS.STATS,
+      ])) as Record<string, LegacySiteStats[] | undefined>;
+      const legacy = result[LEGACY_STATS_KEY];
+      if (!legacy) return;
+
+      const stats = [...(result[STORAGE_KEYS.STATS] ?? [])];
+      for (const entry of legacy) {
+        const index = stats.findIndex((s) => s.siteId === entry.siteId);
+        if (index === -1) stats.push(entry);
+        else stats[index] = mergeSiteStats(stats[index], entry);
+      }
+
+      await browser.storage.local.set({ [STORAGE_KEYS.STATS]: stats });
+      await browser.storage.local.remove(LEGACY_STATS_KEY);
+    },
+  },
+  {
+    version: 2,
+    description: "Convert single unlock methods to challenge steps",
+    migrate: async () => {
+      const result = (await browser.storage.local.get(
+        STORAGE_KEYS.BLOCKED_SITES
+      )) as Record<string, LegacyBlockedSite[] | undefined>;
+      const sites = result[STORAGE_KEYS.BLOCKED_SITES];
+      if (!sites) return;
+
+      await browser.storage.local.set({
+        [STORAGE_KEYS.BLOCKED_SITES]: sites.map(migrateBlockedSite),
+      });
+    },
+  },
+  {
+    version: 3,
+    description: "Add daily stats history",
+    migrate: async () => {
+      const result = (await browser.storage.local.get(
+        STORAGE_KEYS.STATS
+      )) as Record<string, LegacySiteStats[] | undefined>;
+      const stats = result[STORAGE_KEYS.STATS];
+      if (!stats) return;
+
+      await browser.storage.local.set({
+        [STORAGE_KEYS.STATS]: stats.map((s) => ({ daily: [], ...s })),
+      });
+    },
+  },
+  {
+    version: 4,
+    description: "Add pattern kinds",
+    migrate: async () => {
+      const result = (await browser.storage.local.get(
+        STORAGE_KEYS.BLOCKED_SITES
+      )) as Record<string, BlockedSite[] | undefined>;
+      const sites = result[STORAGE_KEYS.BLOCKED_SITES];
+      if (!sites) return;
+
+      await browser.storage.local.set({
+        [STORAGE_KEYS.BLOCKED_SITES]: sites.map((site) => ({
+          ...site,
+          rules: site.rules.map(
+            (
+              rule: Omit<PatternRule, "kind"> & { kind?: PatternRule["kind"] }
+            ) => ({
+              ...rule,
+              kind: rule.kind ?? inferPatternKind(rule.pattern),
+            })
+          ),
+        })),
+      });
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function getSchemaVersion(): Promise<number> {
+  const result = (await browser.storage.local.get(
+    STORAGE_KEYS.SCHEMA_VERSION
+  )) as Record<string, number | undefined>;
+  return result[STORAGE_KEYS.SCHEMA_VERSION] ?? 0;
+}
+
+async function applyMigrations(): Promise<void> {
+  const current = await getSchemaVersion();
+  if (current > SCHEMA_VERSION) {
+    console.warn(
+      `[distracted] Storage schema v${current} is newer than v${SCHEMA_VERSION}, skipping migrations`
+    );
+    return;
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current) continue;
+
+    console.log(
+      `[distracted] Migrating storage to v${migration.version}: ${migration.description}`
+    );
+    await migration.migrate();
+    // Saved after each step so a failure resumes from where it stopped
+    await browser.storage.local.set({
+      [STORAGE_KEYS.SCHEMA_VERSION]: migration.version,
+    });
+  }
+}
+
+let pending: Promise<void> | null = null;
+
+/**
+ * Bring stored data up to SCHEMA_VERSION. Safe to call repeatedly, concurrent
+ * calls share one run.
+ */
+export function runMigrations(): Promise<void> {
+  pending ??= applyMigrations().finally(() => {
+    pending = null;
+  });
+  return pending;
+}
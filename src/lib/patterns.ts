@@ -0,0 +1,358 @@
+/**
+ * The URL pattern language shared by every matcher. A pattern is parsed once
+ * and compiled to a single regular expression over the full URL, which is
+ * used both by the in-extension matcher and as the DNR regexFilter, so the
+ * two can't disagree. The regex only uses syntax RE2 (used by DNR) supports.
+ *
+ * - `example.com` matches the host and any path, with or without `www.`
+ * - `*.example.com` matches the domain and all of its subdomains
+ * - `*` elsewhere in the host matches any run of host characters
+ * - `example.com/path` matches that path and anything below it
+ * - `example.com/path*` treats `*` in the path as any run of path characters
+ *
+ * Matching ignores case, the scheme (http or https), port, query and fragment.
+ * Those are the domain, wildcard and path kinds; a rule can instead be a raw
+ * regex over the full URL, or a query pattern (see parseQueryPattern).
+ */
+
+import type { PatternKind } from "./storage";
+
+export const PATTERN_KINDS: PatternKind[] = [
+  "domain",
+  "wildcard",
+  "path",
+  "query",
+  "regex",
+];
+
+export type HostMatch =
+  | { kind: "exact"; host: string }
+  | { kind: "subdomains"; domain: string }
+  | { kind: "glob"; host: string };
+
+export type PathMatch =
+  | { kind: "any" }
+  | { kind: "prefix"; path: string } // "/path" and everything below it
+  | { kind: "glob"; path: string };
+
+export interface ParsedPattern {
+  host: HostMatch;
+  path: PathMatch;
+}
+
+const HOST_CHAR = "[^/?#:@]";
+const PATH_CHAR = "[^?#]";
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+
+const globToRegex = (value: string, anyChar: string) =>
+  value.split("*").map(escapeRegex).join(`${anyChar}*`);
+
+export function parsePattern(pattern: string): ParsedPattern {
+  const normalized = pattern
+    .toLowerCase()
+    .trim()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "");
+
+  const slashIndex = normalized.indexOf("/");
+  const hostPattern =
+    slashIndex === -1 ? normalized : normalized.slice(0, slashIndex);
+  const pathPattern = slashIndex === -1 ? null : normalized.slice(slashIndex);
+
+  let host: HostMatch;
+  if (hostPattern.startsWith("*.")) {
+    host = { kind: "subdomains", domain: hostPattern.slice(2) };
+  } else if (hostPattern.includes("*")) {
+    host = { kind: "glob", host: hostPattern };
+  } else {
+    host = { kind: "exact", host: hostPattern };
+  }
+
+  let path: PathMatch;
+  if (pathPattern === null) {
+    path = { kind: "any" };
+  } else if (pathPattern.includes("*")) {
+    path = { kind: "glob", path: pathPattern };
+  } else {
+    path = { kind: "prefix", path: pathPattern.replace(/\/$/, "") };
+  }
+
+  return { host, path };
+}
+
+function hostToRegex(host: HostMatch): string {
+  switch (host.kind) {
+    case "exact":
+      return `(www\\.)?${escapeRegex(host.host)}`;
+    case "subdomains":
+      return `(${HOST_CHAR}+\\.)?${globToRegex(host.domain, HOST_CHAR)}`;
+    case "glob":
+      return `(www\\.)?${globToRegex(host.host, HOST_CHAR)}`;
+  }
+}
+
+function pathToRegex(path: PathMatch): string {
+  switch (path.kind) {
+    case "any":
+      return "(/[^?#]*)?";
+    case "prefix":
+      return `${escapeRegex(path.path)}(/${PATH_CHAR}*)?`;
+    case "glob":
+      return globToRegex(path.path, PATH_CHAR);
+  }
+}
+
+function baseToRegex(parsed: ParsedPattern): string {
+  return `^https?://${hostToRegex(parsed.host)}(:[0-9]+)?${pathToRegex(parsed.path)}`;
+}
+
+export function compileParsedPattern(parsed: ParsedPattern): string {
+  return `${baseToRegex(parsed)}([?#].*)?$`;
+}
+
+export interface QueryParam {
+  key: string;
+  value: string | null; // null = any value
+  absent: boolean; // `!key`, the URL must not have it
+}
+
+export interface ParsedQueryPattern {
+  base: ParsedPattern;
+  params: QueryParam[];
+}
+
+// Required parameters can come in any order, which RE2 can only express by
+// spelling out every ordering
+export const MAX_REQUIRED_QUERY_PARAMS = 3;
+
+/**
+ * `example.com/path?key=value&key&!key`: the base pattern, then parameters
+ * that must have a value, must be present, or must be absent
+ */
+export function parseQueryPattern(pattern: string): ParsedQueryPattern {
+  const [base, query = ""] = pattern.trim().split(/\?(.*)/s);
+  const params = query
+    .split("&")
+    .filter(Boolean)
+    .map((part): QueryParam => {
+      const absent = part.startsWith("!");
+      const [key, value] = (absent ? part.slice(1) : part).split(/=(.*)/s);
+      return {
+        key: key.toLowerCase(),
+        value: absent || value === undefined ? null : value.toLowerCase(),
+        absent,
+      };
+    });
+  return { base: parsePattern(base), params };
+}
+
+function paramToRegex(param: QueryParam): string {
+  const value =
+    param.value === null ? "(=[^&#]*)?" : `=${escapeRegex(param.value)}`;
+  return `${escapeRegex(param.key)}${value}`;
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [
+      item,
+      ...rest,
+    ])
+  );
+}
+
+/**
+ * Regex for URLs under the base that have all of the params, in any order
+ */
+function queryToRegex(base: ParsedPattern, params: QueryParam[]): string {
+  if (params.length === 0) return compileParsedPattern(base);
+
+  const orderings = permutations(params).map((ordered) =>
+    ordered.map(paramToRegex).join("&([^#]*&)?")
+  );
+  return `${baseToRegex(base)}\\?([^#]*&)?(${orderings.join("|")})(&[^#]*)?(#.*)?$`;
+}
+
+export interface CompiledPattern {
+  match: string; // regex a URL has to match
+  except: string[]; // regexes a URL must not match
+}
+
+/**
+ * Regexes for a rule, matched case-insensitively against a full URL
+ */
+export function compilePattern(
+  pattern: string,
+  kind: PatternKind
+): CompiledPattern {
+  switch (kind) {
+    case "regex":
+      return { match: pattern, except: [] };
+    case "query": {
+      const { base, params } = parseQueryPattern(pattern);
+      return {
+        match: queryToRegex(
+          base,
+          params.filter((p) => !p.absent)
+        ),
+        except: params
+          .filter((p) => p.absent)
+          .map((p) => queryToRegex(base, [{ ...p, absent: false }])),
+      };
+    }
+    default:
+      return { match: compileParsedPattern(parsePattern(pattern)), except: [] };
+  }
+}
+
+const compiled = new Map<string, { match: RegExp; except: RegExp[] }>();
+
+function getPatternRegexes(pattern: string, kind: PatternKind) {
+  const cacheKey = `${kind}:${pattern}`;
+  let regexes = compiled.get(cacheKey);
+  if (!regexes) {
+    const { match, except } = compilePattern(pattern, kind);
+    regexes = {
+      match: new RegExp(match, "i"),
+      except: except.map((regex) => new RegExp(regex, "i")),
+    };
+    compiled.set(cacheKey, regexes);
+  }
+  return regexes;
+}
+
+export function urlMatchesPattern(
+  url: string,
+  pattern: string,
+  kind: PatternKind = inferPatternKind(pattern)
+): boolean {
+  let href: string;
+  try {
+    const urlObj = new URL(url);
+    // Credentials aren't part of what DNR matches on either
+    urlObj.username = "";
+    urlObj.password = "";
+    href = urlObj.href;
+  } catch {
+    return false;
+  }
+
+  try {
+    const { match, except } = getPatternRegexes(pattern, kind);
+    return match.test(href) && !except.some((regex) => regex.test(href));
+  } catch {
+    // An invalid regex pattern matches nothing
+    return false;
+  }
+}
+
+/**
+ * What a pattern saved before kinds existed was treated as
+ */
+export function inferPatternKind(pattern: string): PatternKind {
+  if (pattern.includes("*")) return "wildcard";
+  if (pattern.replace(/^https?:\/\//, "").includes("/")) return "path";
+  return "domain";
+}
+
+/**
+ * Why a pattern can't be used as the given kind, or null if it can
+ */
+export function validatePattern(
+  pattern: string,
+  kind: PatternKind
+): string | null {
+  const trimmed = pattern.trim();
+  if (!trimmed) return "Pattern is empty";
+
+  const rest = trimmed.replace(/^https?:\/\//, "");
+  switch (kind) {
+    case "domain":
+      if (/[/*?]/.test(rest)) return "Domains can't contain / * or ?";
+      return null;
+    case "wildcard":
+      if (rest.includes("?")) return "Use a query pattern to match parameters";
+      return null;
+    case "path":
+      if (!rest.includes("/")) return "Add a path, e.g. example.com/path";
+      if (/[*?]/.test(rest)) return "Paths can't contain * or ?";
+      return null;
+    case "regex":
+      try {
+        new RegExp(trimmed, "i");
+        return null;
+      } catch (err) {
+        return (err as Error).message;
+      }
+    case "query": {
+      if (!rest.includes("?"))
+        return "Add parameters, e.g. example.com?key=value";
+      const { params } = parseQueryPattern(trimmed);
+      if (params.length === 0) return "Add at least one parameter";
+      if (params.some((p) => !p.key)) return "A parameter is missing its name";
+      if (params.filter((p) => !p.absent).length > MAX_REQUIRED_QUERY_PARAMS) {
+        return `At most ${MAX_REQUIRED_QUERY_PARAMS} required parameters`;
+      }
+      return null;
+    }
+  }
+}
+
+// requestDomains and urlFilter only take ASCII, anything else goes through regex
+const isPlainHost = (host: string) => /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host);
+
+export type DnrUrlCondition =
+  | { requestDomains: string[] }
+  | { urlFilter: string }
+  | { regexFilter: string };
+
+/**
+ * DNR conditions that together match exactly what the pattern matches:
+ * a URL matching any `match` condition and no `except` condition.
+ * Chrome allows far fewer regex rules than other rules, so simple host
+ * patterns use requestDomains or anchored urlFilters and only the rest fall
+ * back to the compiled regex.
+ */
+export function patternToDnrConditions(
+  pattern: string,
+  kind: PatternKind = inferPatternKind(pattern)
+): { match: DnrUrlCondition[]; except: DnrUrlCondition[] } {
+  if (kind === "regex" || kind === "query") {
+    const { match, except } = compilePattern(pattern, kind);
+    return {
+      match: [{ regexFilter: match }],
+      except: except.map((regexFilter) => ({ regexFilter })),
+    };
+  }
+
+  const { host, path } = parsePattern(pattern);
+
+  if (
+    path.kind === "any" &&
+    host.kind === "subdomains" &&
+    isPlainHost(host.domain)
+  ) {
+    // requestDomains also matches every subdomain
+    return { match: [{ requestDomains: [host.domain] }], except: [] };
+  }
+
+  if (path.kind === "any" && host.kind === "exact" && isPlainHost(host.host)) {
+    // `^` matches the port, path, query or end of the URL after the host
+    return {
+      match: ["http", "https"].flatMap((scheme) =>
+        ["", "www."].map((prefix) => ({
+          urlFilter: `|${scheme}://${prefix}${host.host}^`,
+        }))
+      ),
+      except: [],
+    };
+  }
+
+  return {
+    match: [{ regexFilter: compileParsedPattern({ host, path }) }],
+    except: [],
+  };
+}
@@ -0,0 +1,42 @@
+import { PAUSE_LOG_RETENTION_MS } from "./consts";
+import { getDayKey } from "./stats";
+import type { ChallengeStep, PauseEntry } from "./storage";
+
+export const PAUSE_DURATIONS = [15, 30, 60, 120]; // minutes
+export const DEFAULT_MAX_PAUSES_PER_DAY = 2;
+// Writing a reason also leaves a note in the pause log
+export const DEFAULT_PAUSE_CHALLENGE: ChallengeStep = {
+  unlockMethod: "reflect",
+  challengeSettings: { minWords: 10, minChars: 50 },
+};
+
+export function getPauseEnd(pause: PauseEntry): number {
+  return pause.endedAt ?? pause.until;
+}
+
+export function getActivePause(
+  pauses: PauseEntry[],
+  now = Date.now()
+): PauseEntry | null {
+  const last = pauses.at(-1);
+  return last && getPauseEnd(last) > now ? last : null;
+}
+
+/**
+ * Pauses started on the same local day as `now`, which count towards the limit
+ */
+export function countPausesToday(
+  pauses: PauseEntry[],
+  now = new Date()
+): number {
+  const today = getDayKey(now);
+  return pauses.filter((p) => getDayKey(new Date(p.startedAt)) === today)
+    .length;
+}
+
+export function prunePauses(
+  pauses: PauseEntry[],
+  now = Date.now()
+): PauseEntry[] {
+  return pauses.filter((p) => p.startedAt > now - PAUSE_LOG_RETENTION_MS);
+}
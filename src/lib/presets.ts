@@ -0,0 +1,89 @@
+import type { BlockedSite, PatternRule, PresetRef } from "./storage";
+import social from "@/presets/social.json";
+import news from "@/presets/news.json";
+import video from "@/presets/video.json";
+import shopping from "@/presets/shopping.json";
+import gaming from "@/presets/gaming.json";
+
+/**
+ * A curated rule set bundled with the extension. Bump `version` whenever the
+ * rules change so sites created from it are offered the update.
+ */
+export interface Preset {
+  id: string;
+  version: number;
+  name: string;
+  description: string;
+  rules: PatternRule[];
+}
+
+export const PRESETS = [social, news, video, shopping, gaming] as Preset[];
+
+export function getPreset(id: string): Preset | undefined {
+  return PRESETS.find((preset) => preset.id === id);
+}
+
+export function createPresetRef(preset: Preset): PresetRef {
+  return { id: preset.id, version: preset.version, rules: preset.rules };
+}
+
+/**
+ * The newer version of a site's preset, if one is bundled
+ */
+export function getPresetUpdate(site: BlockedSite): Preset | null {
+  if (!site.preset) return null;
+  const preset = getPreset(site.preset.id);
+  return preset && preset.version > site.preset.version ? preset : null;
+}
+
+const ruleKey = (rule: PatternRule) => `${rule.kind}|${rule.pattern}`;
+
+/**
+ * Three-way merge of a preset update into a site's rules. Upstream additions,
+ * removals and block/allow flips are applied unless the user changed that
+ * rule themselves; rules the user added or deleted stay that way.
+ */
+export function mergePresetRules(
+  base: PatternRule[],
+  ours: PatternRule[],
+  theirs: PatternRule[]
+): PatternRule[] {
+  const baseRules = new Map(base.map((rule) => [ruleKey(rule), rule]));
+  const theirRules = new Map(theirs.map((rule) => [ruleKey(rule), rule]));
+  const ourKeys = new Set(ours.map(ruleKey));
+
+  const merged: PatternRule[] = [];
+  for (const rule of ours) {
+    const key = ruleKey(rule);
+    const baseRule = baseRules.get(key);
+    const theirRule = theirRules.get(key);
+    const untouched = baseRule !== undefined && baseRule.allow === rule.allow;
+
+    if (!baseRule || !untouched) {
+      merged.push(rule);
+    } else if (theirRule) {
+      merged.push(theirRule);
+    }
+    // Otherwise the preset dropped a rule the user never changed
+  }
+
+  for (const rule of theirs) {
+    const key = ruleKey(rule);
+    if (!baseRules.has(key) && !ourKeys.has(key)) merged.push(rule);
+  }
+
+  return merged;
+}
+
+/**
+ * The changes that bring a site up to its preset's latest version
+ */
+export function applyPresetUpdate(
+  site: BlockedSite,
+  preset: Preset
+): Pick<BlockedSite, "rules" | "preset"> {
+  return {
+    rules: mergePresetRules(site.preset?.rules ?? [], site.rules, preset.rules),
+    preset: createPresetRef(preset),
+  };
+}
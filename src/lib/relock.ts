@@ -0,0 +1,12 @@
+import type { ChallengeStep } from "./storage";
+
+export const RELOCK_WARNING_OPTIONS = [0, 1, 2, 5]; // minutes before relock, 0 = off
+export const RELOCK_EXTEND_OPTIONS = [5, 10, 15];
+export const DEFAULT_RELOCK_WARNING_MINUTES = 1;
+export const DEFAULT_RELOCK_EXTEND_MINUTES = 5;
+
+// Kept short, an extension only buys a few more minutes
+export const EXTEND_CHALLENGE: ChallengeStep = {
+  unlockMethod: "hold",
+  challengeSettings: { duration: 10 },
+};
@@ -0,0 +1,102 @@
+import type { Schedule } from "./storage";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Monday-first order for display
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const DEFAULT_SCHEDULE: Schedule = {
+  days: [1, 2, 3, 4, 5],
+  windows: [{ start: "09:00", end: "17:00" }],
+};
+
+export function parseTime(time: string): number {
+  const [hours, minutes] = time.split(":").map((n) => parseInt(n, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Check if any window of the schedule covers the given time. Windows whose
+ * end is at or before their start run past midnight and belong to the day
+ * they start on.
+ */
+export function isScheduleActive(
+  schedule: Schedule,
+  now = new Date()
+): boolean {
+  const day = now.getDay();
+  const yesterday = (day + 6) % 7;
+  const minutes = now.getHours() * 60 + now.getMinutes();
+
+  return schedule.windows.some((window) => {
+    const start = parseTime(window.start);
+    const end = parseTime(window.end);
+
+    if (start < end) {
+      return schedule.days.includes(day) && minutes >= start && minutes < end;
+    }
+
+    return (
+      (schedule.days.includes(day) && minutes >= start) ||
+      (schedule.days.includes(yesterday) && minutes < end)
+    );
+  });
+}
+
+/**
+ * Find the next time (ms timestamp) a window of the schedule starts or ends
+ */
+export function getNextScheduleBoundary(
+  schedule: Schedule,
+  now = new Date()
+): number | null {
+  let next: number | null = null;
+
+  // Start a day back so overnight windows from yesterday are considered
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate() + offset
+    );
+    if (!schedule.days.includes(day.getDay())) continue;
+
+    for (const window of schedule.windows) {
+      const start = parseTime(window.start);
+      let end = parseTime(window.end);
+      if (end <= start) end += MINUTES_PER_DAY;
+
+      for (const minutes of [start, end]) {
+        const time = new Date(
+          day.getFullYear(),
+          day.getMonth(),
+          day.getDate(),
+          0,
+          minutes
+        ).getTime();
+        if (time > now.getTime() && (next === null || time < next)) {
+          next = time;
+        }
+      }
+    }
+  }
+
+  return next;
+}
+
+export function formatScheduleDays(days: number[]): string {
+  const sorted = WEEK_ORDER.filter((d) => days.includes(d));
+  const key = sorted.join(",");
+
+  if (sorted.length === 7) return "Every day";
+  if (key === "1,2,3,4,5") return "Weekdays";
+  if (key === "6,0") return "Weekends";
+  return sorted.map((d) => DAY_LABELS[d]).join(", ");
+}
+
+export function formatSchedule(schedule: Schedule): string {
+  const windows = schedule.windows.map((w) => `${w.start}–${w.end}`).join(", ");
+  return `${formatScheduleDays(schedule.days)} ${windows}`;
+}
@@ -0,0 +1,113 @@
+import type { DailyStats } from "./storage";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_STATS_RETENTION_DAYS = 90;
+export const STATS_RETENTION_OPTIONS = [30, 90, 365];
+export const STATS_RANGES = [7, 30];
+
+/**
+ * Local calendar day as "YYYY-MM-DD", which also sorts chronologically
+ */
+export function getDayKey(date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function createDailyStats(date: string): DailyStats {
+  return { date, visits: 0, passed: 0, timeSpentMs: 0 };
+}
+
+/**
+ * Drop buckets older than the retention period
+ */
+export function pruneDailyStats(
+  daily: DailyStats[],
+  retentionDays: number,
+  now = new Date()
+): DailyStats[] {
+  const cutoff = getDayKey(
+    new Date(now.getTime() - retentionDays * MS_PER_DAY)
+  );
+  return daily.filter((d) => d.date > cutoff);
+}
+
+/**
+ * One bucket per day for the last `days` days, oldest first, with empty days
+ * filled in
+ */
+export function getDailySeries(
+  daily: DailyStats[],
+  days: number,
+  now = new Date()
+): DailyStats[] {
+  const byDate = new Map(daily.map((d) => [d.date, d]));
+  const series: DailyStats[] = [];
+
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(now);
+    date.setDate(now.getDate() - i);
+    const key = getDayKey(date);
+    series.push(byDate.get(key) ?? createDailyStats(key));
+  }
+  return series;
+}
+
+/**
+ * Add up series of the same length day by day
+ */
+export function sumDailySeries(
+  seriesList: DailyStats[][],
+  days: number,
+  now = new Date()
+): DailyStats[] {
+  return getDailySeries([], days, now).map((total, i) => {
+    for (const series of seriesList) {
+      total.visits += series[i]?.visits ?? 0;
+      total.passed += series[i]?.passed ?? 0;
+      total.timeSpentMs += series[i]?.timeSpentMs ?? 0;
+    }
+    return total;
+  });
+}
+
+export interface WeekComparison {
+  thisWeek: number;
+  lastWeek: number;
+  change: number | null; // fraction, null when there's nothing to compare to
+}
+
+/**
+ * Compare visits in the last 7 days with the 7 days before
+ */
+export function compareWeeks(
+  daily: DailyStats[],
+  now = new Date()
+): WeekComparison {
+  const series = getDailySeries(daily, 14, now);
+  const sum = (days: DailyStats[]) =>
+    days.reduce((total, d) => total + d.visits, 0);
+
+  const lastWeek = sum(series.slice(0, 7));
+  const thisWeek = sum(series.slice(7));
+  return {
+    thisWeek,
+    lastWeek,
+    change: lastWeek > 0 ? (thisWeek - lastWeek) / lastWeek : null,
+  };
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  return `${seconds}s`;
+}
@@ -1,42 +1,142 @@
-import type {
-  UnlockMethod,
-  ChallengeSettingsMap,
-} from "@/components/challenges";
+import type { UnlockMethod, ChallengeSettingsMap } from "./challenges";
 
 export type { UnlockMethod, ChallengeSettingsMap };
 
+export type PatternKind = "domain" | "wildcard" | "path" | "regex" | "query";
+
 export interface PatternRule {
   pattern: string; // URL pattern (e.g., "twitter.com", "*.reddit.com", "x.com/messages")
+  kind: PatternKind; // how the pattern is interpreted, see lib/patterns
   allow: boolean; // true = allow (whitelist), false = block
 }
 
+export interface ScheduleWindow {
+  start: string; // "HH:MM" local time
+  end: string; // "HH:MM" local time, an end before the start runs past midnight
+}
+
+export interface Schedule {
+  days: number[]; // 0 = Sunday ... 6 = Saturday, as returned by Date#getDay
+  windows: ScheduleWindow[];
+}
+
+export interface SiteBudget {
+  minutes: number; // active time allowed per day
+  resetTime: string; // "HH:MM" local time the budget refills
+}
+
+export interface ChallengeStep {
+  unlockMethod: UnlockMethod;
+  challengeSettings: ChallengeSettingsMap[UnlockMethod]; // Settings for the challenge
+}
+
+export interface EscalationPolicy {
+  factor: number; // durations and lengths are multiplied by this per recent unlock
+  windowMinutes: number; // how far back unlocks count
+  quietMinutes: number; // no unlocks for this long resets to baseline
+}
+
+export interface PresetRef {
+  id: string; // preset the site was created from
+  version: number; // preset version last applied
+  rules: PatternRule[]; // the preset's rules at that version, to merge updates against
+}
+
 export interface BlockedSite {
   id: string;
   name: string; // Display name for the rule set
   rules: PatternRule[]; // Multiple patterns with allow/deny
-  unlockMethod: UnlockMethod;
-  challengeSettings: ChallengeSettingsMap[UnlockMethod]; // Settings for the challenge
+  challenges: ChallengeStep[]; // Completed in order to unlock
   autoRelockAfter: number | null; // minutes before re-locking, null = no auto-relock
   enabled: boolean;
+  schedule?: Schedule | null; // only enforced while a window is active, null = always
+  budget?: SiteBudget | null; // free access until used up, instead of a challenge
+  escalation?: EscalationPolicy | null; // harder challenges after repeated unlocks
+  preset?: PresetRef | null; // bundled preset the rules came from
   createdAt: number;
 }
 
+export interface DailyStats {
+  date: string; // "YYYY-MM-DD" local day
+  visits: number;
+  passed: number;
+  timeSpentMs: number;
+}
+
 export interface SiteStats {
   siteId: string;
   visitCount: number;
   passedCount: number;
   timeSpentMs: number; // time spent on site after unlocking
   lastVisit: number;
+  daily: DailyStats[]; // oldest first, kept for statsRetentionDays
+}
+
+export interface UnlockReason {
+  siteId: string;
+  reason: string;
+  timestamp: number;
+}
+
+export interface BudgetUsage {
+  usedMs: number;
+  periodStart: number; // reset time the usage counts from
+}
+
+export interface RejectedPattern {
+  pattern: string;
+  reason: string; // why the browser can't enforce it
+}
+
+export interface PauseEntry {
+  startedAt: number;
+  until: number; // when blocking resumes on its own
+  endedAt?: number; // set when resumed early
+  reason?: string; // from a reflect challenge
+}
+
+export interface Lockdown {
+  startedAt: number;
+  until: number; // when rules can be weakened again
+  endRequestedAt?: number; // end challenge done, it can end after a delay
 }
 
 export interface Settings {
   statsEnabled: boolean;
+  statsRetentionDays: number; // how long daily stats are kept
+  pauseChallenge: ChallengeStep; // completed before pausing all blocking
+  maxPausesPerDay: number;
+  relockWarningMinutes: number; // warn this long before an unlock runs out, 0 = off
+  relockExtendMinutes: number; // added by extending from the warning
 }
 
-import { DEFAULT_AUTO_RELOCK, STORAGE_KEYS } from "./consts";
+import {
+  DEFAULT_AUTO_RELOCK,
+  MAX_UNLOCK_REASONS,
+  STORAGE_KEYS,
+  UNLOCK_HISTORY_RETENTION_MS,
+} from "./consts";
+import { isScheduleActive } from "./schedule";
+import { urlMatchesPattern } from "./patterns";
+import {
+  DEFAULT_STATS_RETENTION_DAYS,
+  createDailyStats,
+  getDayKey,
+  pruneDailyStats,
+} from "./stats";
+import { DEFAULT_MAX_PAUSES_PER_DAY, DEFAULT_PAUSE_CHALLENGE } from "./pause";
+import {
+  DEFAULT_RELOCK_EXTEND_MINUTES,
+  DEFAULT_RELOCK_WARNING_MINUTES,
+} from "./relock";
 
 export const defaultSettings: Settings = {
   statsEnabled: true,
+  statsRetentionDays: DEFAULT_STATS_RETENTION_DAYS,
+  pauseChallenge: DEFAULT_PAUSE_CHALLENGE,
+  maxPausesPerDay: DEFAULT_MAX_PAUSES_PER_DAY,
+  relockWarningMinutes: DEFAULT_RELOCK_WARNING_MINUTES,
+  relockExtendMinutes: DEFAULT_RELOCK_EXTEND_MINUTES,
 };
 
 export async function getBlockedSites(): Promise<BlockedSite[]> {
@@ -50,13 +150,17 @@ export async function saveBlockedSites(sites: BlockedSite[]): Promise<void> {
   await browser.storage.local.set({ [STORAGE_KEYS.BLOCKED_SITES]: sites });
 }
 
+export function createSiteId(): string {
+  return Math.random().toString(36).substring(2, 10);
+}
+
 export async function addBlockedSite(
   site: Omit<BlockedSite, "id" | "createdAt">
 ): Promise<BlockedSite> {
   const sites = await getBlockedSites();
   const newSite: BlockedSite = {
     ...site,
-    id: Math.random().toString(36).substring(2, 10),
+    id: createSiteId(),
     createdAt: Date.now(),
   };
   sites.push(newSite);
@@ -83,6 +187,128 @@ export async function getStats(): Promise<SiteStats[]> {
   return result[STORAGE_KEYS.STATS] ?? [];
 }
 
+export interface StatsUpdate {
+  incrementVisit?: boolean;
+  incrementPassed?: boolean;
+  addTime?: number;
+}
+
+let statsQueue: Promise<unknown> = Promise.resolve();
+
+export function updateSiteStats(
+  siteId: string,
+  update: StatsUpdate
+): Promise<void> {
+  // Visits and tracked time arrive independently, serialize them so one
+  // read-modify-write doesn't drop the other
+  const run = statsQueue.then(() => applyStatsUpdate(siteId, update));
+  statsQueue = run.catch(() => {});
+  return run;
+}
+
+async function applyStatsUpdate(
+  siteId: string,
+  update: StatsUpdate
+): Promise<void> {
+  const [stats, settings] = await Promise.all([getStats(), getSettings()]);
+  let siteStats = stats.find((s) => s.siteId === siteId);
+
+  if (!siteStats) {
+    siteStats = {
+      siteId,
+      visitCount: 0,
+      passedCount: 0,
+      timeSpentMs: 0,
+      lastVisit: Date.now(),
+      daily: [],
+    };
+    stats.push(siteStats);
+  }
+
+  const now = new Date();
+  const today = getDayKey(now);
+  let bucket = siteStats.daily.find((d) => d.date === today);
+  if (!bucket) {
+    bucket = createDailyStats(today);
+    siteStats.daily.push(bucket);
+  }
+
+  if (update.incrementVisit) {
+    siteStats.visitCount++;
+    bucket.visits++;
+  }
+  if (update.incrementPassed) {
+    siteStats.passedCount++;
+    bucket.passed++;
+  }
+  if (update.addTime) {
+    siteStats.timeSpentMs += update.addTime;
+    bucket.timeSpentMs += update.addTime;
+  }
+  siteStats.lastVisit = now.getTime();
+
+  for (const entry of stats) {
+    entry.daily = pruneDailyStats(
+      entry.daily,
+      settings.statsRetentionDays,
+      now
+    );
+  }
+
+  await browser.storage.local.set({ [STORAGE_KEYS.STATS]: stats });
+}
+
+export async function getUnlockReasons(): Promise<UnlockReason[]> {
+  const result = (await browser.storage.local.get(
+    STORAGE_KEYS.UNLOCK_REASONS
+  )) as Record<string, UnlockReason[] | undefined>;
+  return result[STORAGE_KEYS.UNLOCK_REASONS] ?? [];
+}
+
+export async function addUnlockReason(
+  siteId: string,
+  reason: string
+): Promise<void> {
+  const reasons = await getUnlockReasons();
+  reasons.push({ siteId, reason, timestamp: Date.now() });
+  await browser.storage.local.set({
+    [STORAGE_KEYS.UNLOCK_REASONS]: reasons.slice(-MAX_UNLOCK_REASONS),
+  });
+}
+
+export async function getUnlockHistory(): Promise<Record<string, number[]>> {
+  const result = (await browser.storage.local.get(
+    STORAGE_KEYS.UNLOCK_HISTORY
+  )) as Record<string, Record<string, number[]> | undefined>;
+  return result[STORAGE_KEYS.UNLOCK_HISTORY] ?? {};
+}
+
+export async function recordUnlock(siteId: string): Promise<void> {
+  const history = await getUnlockHistory();
+  const cutoff = Date.now() - UNLOCK_HISTORY_RETENTION_MS;
+
+  for (const [id, timestamps] of Object.entries(history)) {
+    history[id] = timestamps.filter((t) => t > cutoff);
+    if (history[id].length === 0) delete history[id];
+  }
+  history[siteId] = [...(history[siteId] ?? []), Date.now()];
+
+  await browser.storage.local.set({ [STORAGE_KEYS.UNLOCK_HISTORY]: history });
+}
+
+export async function getBudgetUsage(): Promise<Record<string, BudgetUsage>> {
+  const result = (await browser.storage.local.get(
+    STORAGE_KEYS.BUDGET_USAGE
+  )) as Record<string, Record<string, BudgetUsage> | undefined>;
+  return result[STORAGE_KEYS.BUDGET_USAGE] ?? {};
+}
+
+export async function saveBudgetUsage(
+  usage: Record<string, BudgetUsage>
+): Promise<void> {
+  await browser.storage.local.set({ [STORAGE_KEYS.BUDGET_USAGE]: usage });
+}
+
 export async function getSettings(): Promise<Settings> {
   const result = (await browser.storage.local.get(
     STORAGE_KEYS.SETTINGS
@@ -90,104 +316,90 @@ export async function getSettings(): Promise<Settings> {
   return { ...defaultSettings, ...(result[STORAGE_KEYS.SETTINGS] ?? {}) };
 }
 
-export function urlMatchesPattern(url: string, pattern: string): boolean {
-  try {
-    const urlObj = new URL(url);
-    const hostname = urlObj.hostname.toLowerCase();
-    const pathname = urlObj.pathname.toLowerCase();
-
-    const normalizedPattern = pattern
-      .toLowerCase()
-      .trim()
-      .replace(/^https?:\/\//, "")
-      .replace(/^www\./, "");
-
-    if (normalizedPattern.includes("/")) {
-      const slashIndex = normalizedPattern.indexOf("/");
-      const hostPattern = normalizedPattern.slice(0, slashIndex);
-      const pathPattern = normalizedPattern.slice(slashIndex);
-      const normalizedPath = pathname.toLowerCase();
-      const normalizedPathPattern = pathPattern.toLowerCase();
-
-      const normalizedHost = hostname.toLowerCase().replace(/^www\./, "");
-      let hostMatches = false;
-
-      if (hostPattern.startsWith("*.")) {
-        const domain = hostPattern.slice(2);
-        hostMatches =
-          normalizedHost === domain || normalizedHost.endsWith("." + domain);
-      } else if (hostPattern.includes("*")) {
-        const regexPattern = hostPattern
-          .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
-          .replace(/\*/g, ".*");
-        const regex = new RegExp(`^${regexPattern}$`, "i");
-        hostMatches =
-          regex.test(normalizedHost) || regex.test(hostname.toLowerCase());
-      } else {
-        hostMatches =
-          normalizedHost === hostPattern ||
-          hostname.toLowerCase() === hostPattern ||
-          hostname.toLowerCase() === "www." + hostPattern;
-      }
-
-      if (!hostMatches) return false;
-
-      if (normalizedPathPattern.includes("*")) {
-        const regexPattern = normalizedPathPattern
-          .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
-          .replace(/\*/g, ".*");
-        const regex = new RegExp(`^${regexPattern}$`, "i");
-        return regex.test(normalizedPath);
-      }
-
-      const cleanPattern = normalizedPathPattern.replace(/\/$/, "");
-      const cleanPath = normalizedPath.replace(/\/$/, "");
-      return (
-        cleanPath === cleanPattern || cleanPath.startsWith(cleanPattern + "/")
-      );
-    }
-
-    const normalizedHost = hostname.toLowerCase().replace(/^www\./, "");
-    if (normalizedPattern.startsWith("*.")) {
-      const domain = normalizedPattern.slice(2);
-      return normalizedHost === domain || normalizedHost.endsWith("." + domain);
-    }
-
-    if (normalizedPattern.includes("*")) {
-      const regexPattern = normalizedPattern
-        .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
-        .replace(/\*/g, ".*");
-      const regex = new RegExp(`^${regexPattern}$`, "i");
-      return regex.test(normalizedHost) || regex.test(hostname.toLowerCase());
-    }
-
-    return (
-      normalizedHost === normalizedPattern ||
-      hostname.toLowerCase() === normalizedPattern ||
-      hostname.toLowerCase() === "www." + normalizedPattern
-    );
-  } catch {
-    return false;
+export async function saveSettings(settings: Settings): Promise<void> {
+  await browser.storage.local.set({ [STORAGE_KEYS.SETTINGS]: settings });
+}
+
+/**
+ * Global pauses, oldest first; the last one may still be running
+ */
+export async function getPauses(): Promise<PauseEntry[]> {
+  const result = (await browser.storage.local.get(
+    STORAGE_KEYS.PAUSES
+  )) as Record<string, PauseEntry[] | undefined>;
+  return result[STORAGE_KEYS.PAUSES] ?? [];
+}
+
+export async function savePauses(pauses: PauseEntry[]): Promise<void> {
+  await browser.storage.local.set({ [STORAGE_KEYS.PAUSES]: pauses });
+}
+
+/**
+ * The current or last lockdown, null if there never was one or it was ended
+ */
+export async function getLockdown(): Promise<Lockdown | null> {
+  const result = (await browser.storage.local.get(
+    STORAGE_KEYS.LOCKDOWN
+  )) as Record<string, Lockdown | undefined>;
+  return result[STORAGE_KEYS.LOCKDOWN] ?? null;
+}
+
+export async function saveLockdown(lockdown: Lockdown | null): Promise<void> {
+  if (lockdown) {
+    await browser.storage.local.set({ [STORAGE_KEYS.LOCKDOWN]: lockdown });
+  } else {
+    await browser.storage.local.remove(STORAGE_KEYS.LOCKDOWN);
   }
 }
 
-export function urlMatchesSiteRules(url: string, site: BlockedSite): boolean {
+/**
+ * Patterns the browser refused, by site id
+ */
+export async function getRejectedPatterns(): Promise<
+  Record<string, RejectedPattern[]>
+> {
+  const result = (await browser.storage.local.get(
+    STORAGE_KEYS.REJECTED_PATTERNS
+  )) as Record<string, Record<string, RejectedPattern[]> | undefined>;
+  return result[STORAGE_KEYS.REJECTED_PATTERNS] ?? {};
+}
+
+/**
+ * Whether a site should currently be enforced (enabled and inside its schedule)
+ */
+export function isSiteActive(site: BlockedSite, now = new Date()): boolean {
   if (!site.enabled) return false;
+  if (site.schedule) return isScheduleActive(site.schedule, now);
+  return true;
+}
 
-  let isBlocked = false;
+/**
+ * The rule that decides whether a URL is blocked: the first matching allow
+ * rule, otherwise the first matching block rule. Ignores schedule and enabled.
+ */
+export function findDecidingRule(
+  url: string,
+  rules: PatternRule[]
+): { index: number; rule: PatternRule } | null {
+  let blockIndex = -1;
 
   // Process rules in order - allow rules can override block rules
-  for (const rule of site.rules) {
-    if (urlMatchesPattern(url, rule.pattern)) {
-      if (rule.allow) {
-        return false;
-      } else {
-        isBlocked = true;
-      }
-    }
+  for (const [index, rule] of rules.entries()) {
+    // Blank patterns only exist in unsaved drafts, an empty regex matches all
+    if (!rule.pattern) continue;
+    if (!urlMatchesPattern(url, rule.pattern, rule.kind)) continue;
+    if (rule.allow) return { index, rule };
+    if (blockIndex === -1) blockIndex = index;
   }
 
-  return isBlocked;
+  return blockIndex === -1
+    ? null
+    : { index: blockIndex, rule: rules[blockIndex] };
+}
+
+export function urlMatchesSiteRules(url: string, site: BlockedSite): boolean {
+  if (!isSiteActive(site)) return false;
+  return findDecidingRule(url, site.rules)?.rule.allow === false;
 }
 
 export async function findMatchingBlockedSite(
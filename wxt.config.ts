@@ -16,16 +16,20 @@ export default defineConfig({
       "activeTab",
       "webNavigation",
       "alarms",
+      "idle",
+      "contextMenus",
+      "notifications",
     ];
 
-    // MV3 Chrome uses declarativeNetRequest + webNavigation for redirect
-    // MV2 Firefox uses webRequest blocking (needs host permissions)
+    // MV3 Chrome uses declarativeNetRequest redirect rules, with webNavigation
+    // as a fallback. MV2 Firefox uses webRequest blocking.
+    // MV3 injects the relock warning overlay through the scripting API.
     const permissions = isFirefox
       ? [...basePermissions, "webRequest", "webRequestBlocking"]
-      : [...basePermissions, "declarativeNetRequest"];
+      : [...basePermissions, "declarativeNetRequest", "scripting"];
 
-    // Only Firefox MV2 needs host permissions for webRequest
-    const hostPermissions = isFirefox ? ["<all_urls>"] : [];
+    // webRequest blocking and DNR redirects both need host permissions
+    const hostPermissions = ["<all_urls>"];
 
     return {
       name: "distracted",
@@ -33,6 +37,21 @@ export default defineConfig({
         "blocks distracting websites! do mini tasks to get back on them...",
       permissions,
       host_permissions: hostPermissions,
+      // Ids match COMMANDS in the background
+      commands: {
+        "block-current-site": {
+          suggested_key: { default: "Alt+Shift+B" },
+          description: "Block the current site now",
+        },
+        "relock-all": {
+          suggested_key: { default: "Alt+Shift+L" },
+          description: "Relock all unlocked sites",
+        },
+        "toggle-pause": {
+          suggested_key: { default: "Alt+Shift+P" },
+          description: "Pause or resume all blocking",
+        },
+      },
       ...(isFirefox
         ? {
             browser_specific_settings: {
@@ -43,11 +62,24 @@ export default defineConfig({
                 },
               },
             },
+            // The relock warning overlay frames the extend page
+            web_accessible_resources: ["extend.html"],
           }
         : {
             declarative_net_request: {
               rule_resources: [],
             },
+            // DNR can only redirect to pages sites are allowed to load
+            web_accessible_resources: [
+              {
+                resources: ["blocked.html"],
+                matches: ["<all_urls>"],
+              },
+              {
+                resources: ["extend.html"],
+                matches: ["<all_urls>"],
+              },
+            ],
           }),
     };
   },